@@ -3,19 +3,28 @@ import { PLAYER_LOCATION_VAR } from '../constants/parser';
 import {
   ItemInteractions,
   NamedEntities,
+  type CallScriptEffect,
   type CommandDefinition,
+  type ExitDefinition,
   type GameDefinition,
   type GameVariableDefinition,
   type ItemDefinition,
+  type ItemEvent,
   type ItemId,
   type RoomDefinition,
+  type RoomEvent,
   type RoomId,
   type ScriptBlock,
   type ScriptDefinition,
   type ScriptId,
   type SymbolDefinition,
 } from '../types';
-import { ReferenceError, UndefinedIdentifierError } from '../errors/parser';
+import {
+  ExitAlreadyDefinedError,
+  HookAlreadyDefinedError,
+  ReferenceError,
+  UndefinedIdentifierError,
+} from '../errors/parser';
 
 export class GameDefinitionBuilder {
   private gameDefinition: GameDefinition = {
@@ -32,6 +41,7 @@ export class GameDefinitionBuilder {
     rooms: {},
     commands: [],
     scripts: {},
+    turnHooks: [],
     playerStartLocation: '',
   };
 
@@ -65,6 +75,7 @@ export class GameDefinitionBuilder {
       desc: '',
       initialLocation: '',
       interactions: [],
+      events: {},
     };
 
     return this;
@@ -82,6 +93,8 @@ export class GameDefinitionBuilder {
     this.gameDefinition.rooms[definition.id] = {
       ...definition,
       desc: '',
+      exits: {},
+      events: {},
     };
 
     return this;
@@ -96,6 +109,60 @@ export class GameDefinitionBuilder {
     this.gameDefinition.rooms[roomId].desc = desc;
   }
 
+  public setRoomExit(roomId: RoomId, exit: ExitDefinition) {
+    const room = this.gameDefinition.rooms[roomId];
+    assert(room, 'setInitialRoomDefinition must be called first');
+
+    const existingExit = room.exits[exit.direction];
+    if (existingExit) {
+      throw new ExitAlreadyDefinedError(
+        exit.direction,
+        existingExit.line,
+        existingExit.col,
+        exit.line,
+        exit.col,
+      );
+    }
+
+    room.exits[exit.direction] = exit;
+
+    return this;
+  }
+
+  public setRoomHook(
+    roomId: RoomId,
+    event: RoomEvent,
+    effect: CallScriptEffect,
+  ) {
+    const room = this.gameDefinition.rooms[roomId];
+    assert(room, 'setInitialRoomDefinition must be called first');
+
+    GameDefinitionBuilder.assertNewHook(room.events[event], event, effect);
+    room.events[event] = effect;
+
+    return this;
+  }
+
+  public setItemHook(
+    itemId: ItemId,
+    event: ItemEvent,
+    effect: CallScriptEffect,
+  ) {
+    const item = this.gameDefinition.items[itemId];
+    assert(item, 'setInitialItemDefinition must be called first');
+
+    GameDefinitionBuilder.assertNewHook(item.events[event], event, effect);
+    item.events[event] = effect;
+
+    return this;
+  }
+
+  public addTurnHook(effect: CallScriptEffect) {
+    this.gameDefinition.turnHooks.push(effect);
+
+    return this;
+  }
+
   public setItemDesc(itemId: ItemId, desc: string) {
     assert(
       this.gameDefinition.items[itemId],
@@ -168,4 +235,20 @@ export class GameDefinitionBuilder {
 
     return this;
   }
+
+  private static assertNewHook(
+    existingHook: CallScriptEffect | undefined,
+    event: string,
+    hook: CallScriptEffect,
+  ) {
+    if (existingHook) {
+      throw new HookAlreadyDefinedError(
+        event.toUpperCase(),
+        existingHook.line,
+        existingHook.col,
+        hook.line,
+        hook.col,
+      );
+    }
+  }
 }
@@ -0,0 +1,325 @@
+import { BUNDLE_FORMAT, BUNDLE_FORMAT_VERSION } from './constants/interpreter';
+import type { JsonSchema } from './schema-validator';
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+
+/**
+ * An object with exactly `properties`, all of them required but `optional`.
+ */
+const shape = (
+  description: string,
+  properties: Record<string, JsonSchema>,
+  optional: string[] = [],
+): JsonSchema => ({
+  type: 'object',
+  description,
+  properties,
+  required: Object.keys(properties).filter((name) => !optional.includes(name)),
+  additionalProperties: false,
+});
+
+const position: Record<string, JsonSchema> = {
+  line: {
+    type: 'integer',
+    description:
+      'Line in the compiled program, whose files are numbered one after the other',
+  },
+  col: { type: 'integer', description: 'Column on that line' },
+};
+
+const kind = (value: string): JsonSchema => ({ const: value });
+
+const string = (description: string): JsonSchema => ({
+  type: 'string',
+  description,
+});
+
+const recordOf = (description: string, values: JsonSchema): JsonSchema => ({
+  type: 'object',
+  description,
+  additionalProperties: values,
+});
+
+const listOf = (description: string, items: JsonSchema): JsonSchema => ({
+  type: 'array',
+  description,
+  items,
+});
+
+/**
+ * JSON Schema of the bundles written by `BundleSerializer`: a compiled game
+ * that runs without its sources. Every change to the shape of a bundle must
+ * bump `BUNDLE_FORMAT_VERSION` and be described here.
+ */
+export const BUNDLE_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `scribe-bundle-v${BUNDLE_FORMAT_VERSION}.schema.json`,
+  title: 'Scribe game bundle',
+  ...shape('A compiled scribe game', {
+    format: {
+      const: BUNDLE_FORMAT,
+      description: 'Marks the file as a scribe bundle',
+    },
+    version: {
+      const: BUNDLE_FORMAT_VERSION,
+      description: 'Version of the bundle format',
+    },
+    game: ref('game'),
+  }),
+  $defs: {
+    game: shape('The definition of the game', {
+      variables: {
+        ...recordOf('Global variables by name', ref('variable')),
+        required: ['playerLocation'],
+      },
+      items: recordOf('Items by ID', ref('item')),
+      rooms: recordOf('Rooms by ID', ref('room')),
+      commands: listOf('Commands in definition order', ref('command')),
+      scripts: recordOf('Scripts by ID', ref('script')),
+      turnHooks: listOf(
+        'Scripts run after every turn, in definition order',
+        ref('callScript'),
+      ),
+      playerStartLocation: string('ID of the room the player starts in'),
+    }),
+    variable: shape('A global variable', {
+      name: string('Name of the variable'),
+      type: {
+        enum: ['NUMBER', 'STRING', 'BOOL', 'ID'],
+        description: 'Type of the initial value, ID for a room or item ID',
+      },
+      initialValue: { type: ['string', 'number', 'boolean'] },
+      ...position,
+    }),
+    item: shape('An item', {
+      id: string('ID scripts refer to the item by'),
+      name: string('Name shown to the player'),
+      desc: string('Description shown when examining the item'),
+      initialLocation: string(
+        'ID of the room the item starts in, empty for nowhere',
+      ),
+      interactions: listOf('What the player may do with the item', {
+        enum: ['takeable'],
+      }),
+      events: shape(
+        'Scripts run when the item is acted on',
+        {
+          take: ref('callScript'),
+          drop: ref('callScript'),
+          examine: ref('callScript'),
+        },
+        ['take', 'drop', 'examine'],
+      ),
+      ...position,
+    }),
+    room: shape('A room', {
+      id: string('ID scripts refer to the room by'),
+      name: string('Name shown to the player'),
+      desc: string('Description shown when looking around'),
+      exits: recordOf('Exits by direction', ref('exit')),
+      events: shape(
+        'Scripts run when the player moves',
+        { enter: ref('callScript'), leave: ref('callScript') },
+        ['enter', 'leave'],
+      ),
+      ...position,
+    }),
+    exit: shape('A way out of a room', {
+      direction: string('Direction the player goes in'),
+      roomId: string('ID of the room the exit leads to'),
+      ...position,
+    }),
+    command: shape('A command the player can type', {
+      verb: string('The command as written, e.g. "take {item}"'),
+      pattern: ref('commandPattern'),
+      aliases: listOf(
+        'Other ways to type the command',
+        shape('An alias of a command', {
+          verb: string('The alias as written'),
+          pattern: ref('commandPattern'),
+          ...position,
+        }),
+      ),
+      effect: ref('callScript'),
+      ...position,
+    }),
+    commandPattern: listOf('Words and parameters of a command', {
+      oneOf: [
+        shape('A word to type as is', {
+          kind: kind('word'),
+          value: { type: 'string' },
+        }),
+        shape('A parameter bound to what the player typed', {
+          kind: kind('parameter'),
+          name: { type: 'string' },
+        }),
+      ],
+    }),
+    callScript: shape('A call to a script', {
+      kind: kind('callScript'),
+      scriptId: string('ID of the script to run'),
+      ...position,
+    }),
+    script: shape('A script', {
+      id: string('ID of the script'),
+      body: ref('block'),
+      ...position,
+    }),
+    block: listOf('Actions run in order', ref('action')),
+    action: {
+      description: 'An action of a script',
+      oneOf: [
+        shape(
+          'Prints a template or the value of an expression',
+          {
+            kind: kind('message'),
+            messageTemplate: listOf('Parts of the message', {
+              oneOf: [
+                shape('Text printed as is', {
+                  kind: kind('literal'),
+                  value: { type: 'string' },
+                }),
+                shape('A placeholder printing an expression', {
+                  kind: kind('expression'),
+                  expression: ref('expression'),
+                }),
+              ],
+            }),
+            valueExpression: ref('expression'),
+            ...position,
+          },
+          ['messageTemplate', 'valueExpression'],
+        ),
+        shape(
+          'Runs the first branch whose condition holds',
+          {
+            kind: kind('if'),
+            condition: ref('condition'),
+            thenBranch: ref('block'),
+            elseIfBranches: listOf(
+              'ELSEIF branches in order',
+              shape('An ELSEIF branch', {
+                condition: ref('condition'),
+                body: ref('block'),
+                ...position,
+              }),
+            ),
+            elseBranch: ref('block'),
+            ...position,
+          },
+          ['elseBranch'],
+        ),
+        shape('Runs its body for every entry of a collection', {
+          kind: kind('for'),
+          variableName: string('Name bound to the current entry'),
+          variableCol: {
+            type: 'integer',
+            description: 'Column of that name on the line of the loop',
+          },
+          collection: ref('expression'),
+          body: ref('block'),
+          ...position,
+        }),
+        shape('Assigns a variable', {
+          kind: kind('set'),
+          target: ref('variableAccess'),
+          value: ref('expression'),
+          ...position,
+        }),
+        ...Object.entries({
+          take: 'Puts an item in the inventory',
+          drop: 'Drops an item in the current room',
+          destroy: 'Removes an item from the game',
+          examine: 'Describes an item',
+        }).map(([itemAction, description]) =>
+          shape(description, {
+            kind: kind(itemAction),
+            item: ref('expression'),
+            ...position,
+          }),
+        ),
+        shape('Moves an item to a room', {
+          kind: kind('move'),
+          item: ref('expression'),
+          destination: ref('expression'),
+          ...position,
+        }),
+      ],
+    },
+    condition: {
+      description: 'A condition of IF or ELSEIF',
+      oneOf: [
+        shape('Whether a collection has items', {
+          kind: kind('collectionCheck'),
+          target: ref('expression'),
+          checkType: { const: 'HAS_ITEMS' },
+          ...position,
+        }),
+        shape('Compares two values', {
+          kind: kind('comparison'),
+          left: ref('expression'),
+          operator: { enum: ['==', '!=', '<', '<=', '>', '>='] },
+          right: ref('expression'),
+          ...position,
+        }),
+        shape('Combines two conditions', {
+          kind: kind('logical'),
+          operator: { enum: ['AND', 'OR'] },
+          left: ref('condition'),
+          right: ref('condition'),
+          ...position,
+        }),
+        shape('Negates a condition', {
+          kind: kind('not'),
+          operand: ref('condition'),
+          ...position,
+        }),
+      ],
+    },
+    variableAccess: shape('Reads a variable', {
+      kind: kind('variableAccess'),
+      variableName: { type: 'string' },
+      ...position,
+    }),
+    expression: {
+      description: 'An expression of a script',
+      oneOf: [
+        ref('variableAccess'),
+        shape('Reads an entry of a collection', {
+          kind: kind('indexedAccess'),
+          object: ref('expression'),
+          index: ref('expression'),
+          ...position,
+        }),
+        shape('Reads a property of an item or room', {
+          kind: kind('propertyAccess'),
+          object: ref('expression'),
+          propertyName: { type: 'string' },
+          ...position,
+        }),
+        shape('Arithmetic on two values', {
+          kind: kind('binary'),
+          operator: { enum: ['+', '-', '*', '/'] },
+          left: ref('expression'),
+          right: ref('expression'),
+          ...position,
+        }),
+        shape('A number', {
+          kind: kind('numberLiteral'),
+          value: { type: 'number' },
+          ...position,
+        }),
+        shape('A string', {
+          kind: kind('stringLiteral'),
+          value: { type: 'string' },
+          ...position,
+        }),
+        shape('A boolean', {
+          kind: kind('booleanLiteral'),
+          value: { type: 'boolean' },
+          ...position,
+        }),
+      ],
+    },
+  },
+};
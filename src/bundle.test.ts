@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, test } from 'bun:test';
+import { BundleSerializer } from './bundle';
+import { Compiler } from './compiler';
+import {
+  InvalidBundleError,
+  UnsupportedBundleVersionError,
+} from './errors/bundle';
+import type { GameBundle } from './types';
+
+const file = path.join(import.meta.dir, 'programs', 'main.scribe');
+const { gameDefinition, diagnostics } = new Compiler().compile(
+  fs.readFileSync(file, 'utf8'),
+  file,
+);
+
+/** The bundle of the sample program, as `edit` rewrites it. */
+function editBundle(edit: (bundle: GameBundle) => unknown) {
+  const data = new BundleSerializer().serialize(gameDefinition);
+
+  return JSON.stringify(edit(JSON.parse(data) as GameBundle));
+}
+
+describe('BundleSerializer', () => {
+  test('loads the game it wrote', () => {
+    expect(diagnostics).toEqual([]);
+
+    const serializer = new BundleSerializer();
+    const data = serializer.serialize(gameDefinition);
+
+    expect(serializer.deserialize(data)).toEqual(gameDefinition);
+  });
+
+  test('rejects references to rooms the bundle does not define', () => {
+    const data = editBundle((bundle) => ({
+      ...bundle,
+      game: { ...bundle.game, playerStartLocation: 'nowhere' },
+    }));
+
+    expect(() => new BundleSerializer().deserialize(data)).toThrow(
+      InvalidBundleError,
+    );
+  });
+
+  test('rejects bundles that do not match the schema', () => {
+    const data = editBundle((bundle) => ({
+      ...bundle,
+      game: { ...bundle.game, rooms: [] },
+    }));
+
+    expect(() => new BundleSerializer().deserialize(data)).toThrow(
+      InvalidBundleError,
+    );
+  });
+
+  test('refuses other format versions', () => {
+    const data = editBundle((bundle) => ({
+      ...bundle,
+      version: bundle.version + 1,
+    }));
+
+    expect(() => new BundleSerializer().deserialize(data)).toThrow(
+      UnsupportedBundleVersionError,
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { strict as assert } from 'assert';
+import { BUNDLE_FORMAT, BUNDLE_FORMAT_VERSION } from './constants/interpreter';
+import { BUNDLE_SCHEMA } from './bundle-schema';
+import {
+  InvalidBundleError,
+  UnsupportedBundleVersionError,
+} from './errors/bundle';
+import { SchemaValidator, type SchemaViolation } from './schema-validator';
+import {
+  ItemInteractions,
+  type BundledItemInteraction,
+  type CallScriptEffect,
+  type GameBundle,
+  type GameDefinition,
+} from './types';
+
+/**
+ * Writes compiled games to JSON bundles, which `BUNDLE_SCHEMA` describes,
+ * and loads them back, so games can be run without their sources.
+ */
+export class BundleSerializer {
+  private static validator = new SchemaValidator(BUNDLE_SCHEMA);
+
+  private static interactionNames = new Map<
+    ItemInteractions,
+    BundledItemInteraction
+  >([[ItemInteractions.Takeable, 'takeable']]);
+
+  public serialize(gameDefinition: GameDefinition): string {
+    const bundle: GameBundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_FORMAT_VERSION,
+      game: {
+        ...gameDefinition,
+        items: BundleSerializer.mapItems(gameDefinition.items, (item) => ({
+          ...item,
+          interactions: item.interactions.map((interaction) => {
+            const name = BundleSerializer.interactionNames.get(interaction);
+
+            if (!name) {
+              throw new Error(`Unknown item interaction ${interaction}`);
+            }
+
+            return name;
+          }),
+        })),
+      },
+    };
+
+    return JSON.stringify(bundle, null, 2);
+  }
+
+  /**
+   * Parses a bundle produced by `serialize`, refusing other format versions,
+   * anything that does not match the schema and references to rooms or
+   * scripts the bundle does not define.
+   */
+  public deserialize(data: string): GameDefinition {
+    let bundle: unknown;
+
+    try {
+      bundle = JSON.parse(data);
+    } catch {
+      throw new InvalidBundleError('it is not valid JSON');
+    }
+
+    // checked first, as bundles of other versions are not expected to match
+    if (
+      BundleSerializer.isRecord(bundle) &&
+      bundle.format === BUNDLE_FORMAT &&
+      bundle.version !== BUNDLE_FORMAT_VERSION
+    ) {
+      throw new UnsupportedBundleVersionError(bundle.version);
+    }
+
+    const [violation] = BundleSerializer.validator.validate(bundle);
+
+    if (violation) {
+      throw new InvalidBundleError(
+        `${violation.path || 'the bundle'} ${violation.message}`,
+      );
+    }
+
+    const { game } = bundle as GameBundle;
+    const [danglingReference] = BundleSerializer.findDanglingReferences(game);
+
+    if (danglingReference) {
+      throw new InvalidBundleError(
+        `${danglingReference.path} ${danglingReference.message}`,
+      );
+    }
+
+    const interactions = new Map(
+      [...BundleSerializer.interactionNames].map(([interaction, name]) => [
+        name,
+        interaction,
+      ]),
+    );
+
+    return {
+      ...game,
+      items: BundleSerializer.mapItems(game.items, (item) => ({
+        ...item,
+        interactions: item.interactions.map((name) => {
+          const interaction = interactions.get(name);
+          // the schema only allows known names
+          assert(interaction !== undefined, `Unknown interaction ${name}`);
+
+          return interaction;
+        }),
+      })),
+    };
+  }
+
+  /**
+   * References the schema cannot check: exits, item locations and the start
+   * location must name rooms of the game, and every effect a script of it.
+   */
+  private static findDanglingReferences(
+    game: GameBundle['game'],
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const pointer = (...names: (string | number)[]) =>
+      names.reduce<string>(
+        (path, name) => `${path}/${SchemaValidator.escapePointer(`${name}`)}`,
+        '/game',
+      );
+    const checkRoom = (roomId: string, path: string) => {
+      if (!Object.hasOwn(game.rooms, roomId)) {
+        violations.push({
+          path,
+          message: `refers to unknown room "${roomId}"`,
+        });
+      }
+    };
+    const checkEffect = (
+      effect: CallScriptEffect | undefined,
+      path: string,
+    ) => {
+      if (effect && !Object.hasOwn(game.scripts, effect.scriptId)) {
+        violations.push({
+          path: `${path}/scriptId`,
+          message: `refers to unknown script "${effect.scriptId}"`,
+        });
+      }
+    };
+
+    checkRoom(game.playerStartLocation, pointer('playerStartLocation'));
+
+    for (const [roomId, room] of Object.entries(game.rooms)) {
+      for (const [direction, exit] of Object.entries(room.exits)) {
+        checkRoom(
+          exit.roomId,
+          pointer('rooms', roomId, 'exits', direction, 'roomId'),
+        );
+      }
+
+      for (const [event, effect] of Object.entries(room.events)) {
+        checkEffect(effect, pointer('rooms', roomId, 'events', event));
+      }
+    }
+
+    for (const [itemId, item] of Object.entries(game.items)) {
+      // an empty location puts the item nowhere
+      if (item.initialLocation) {
+        checkRoom(
+          item.initialLocation,
+          pointer('items', itemId, 'initialLocation'),
+        );
+      }
+
+      for (const [event, effect] of Object.entries(item.events)) {
+        checkEffect(effect, pointer('items', itemId, 'events', event));
+      }
+    }
+
+    game.commands.forEach((command, index) => {
+      checkEffect(command.effect, pointer('commands', index, 'effect'));
+    });
+    game.turnHooks.forEach((hook, index) => {
+      checkEffect(hook, pointer('turnHooks', index));
+    });
+
+    return violations;
+  }
+
+  private static mapItems<T, U>(
+    items: Record<string, T>,
+    map: (item: T) => U,
+  ): Record<string, U> {
+    return Object.fromEntries(
+      Object.entries(items).map(([id, item]) => [id, map(item)]),
+    );
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
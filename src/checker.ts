@@ -0,0 +1,575 @@
+import { PLAYER_LOCATION_VAR } from './constants/parser';
+import {
+  HOOK_ITEM_PARAMETER,
+  HOOK_ROOM_PARAMETER,
+  INVENTORY_COLLECTION,
+  ITEMS_COLLECTION,
+  ROOMS_COLLECTION,
+} from './constants/interpreter';
+import {
+  NamedEntities,
+  type ComparisonCondition,
+  type Condition,
+  type Expression,
+  type GameDefinition,
+  type GameVariableDefinition,
+  type ScriptAction,
+  type ScriptBlock,
+  type ScriptId,
+  type SourcePosition,
+  type SymbolDefinition,
+} from './types';
+import { UndefinedIdentifierError } from './errors/parser';
+import {
+  LoopVariableShadowingError,
+  TypeMismatchError,
+  UnknownPropertyError,
+} from './errors/checker';
+import { reportOrThrow, type DiagnosticCollector } from './diagnostics';
+import { findSuggestion } from './suggestions';
+
+type StaticType =
+  | { kind: 'number' }
+  | { kind: 'string' }
+  | { kind: 'bool' }
+  | { kind: 'room' }
+  | { kind: 'item' }
+  | { kind: 'collection'; element: StaticType }
+  // values whose shape cannot be known before running, e.g. ID variables
+  | { kind: 'unknown' };
+
+type Scope = ReadonlyMap<string, StaticType>;
+
+const NUMBER: StaticType = { kind: 'number' };
+const STRING: StaticType = { kind: 'string' };
+const BOOL: StaticType = { kind: 'bool' };
+const ROOM: StaticType = { kind: 'room' };
+const ITEM: StaticType = { kind: 'item' };
+const UNKNOWN: StaticType = { kind: 'unknown' };
+
+export class SemanticChecker {
+  private static roomProperties = new Map<string, StaticType>([
+    ['id', ROOM],
+    ['name', STRING],
+    ['desc', STRING],
+    ['items', { kind: 'collection', element: ITEM }],
+    ['exits', { kind: 'collection', element: STRING }],
+  ]);
+
+  private static itemProperties = new Map<string, StaticType>([
+    ['id', ITEM],
+    ['name', STRING],
+    ['desc', STRING],
+    ['location', ROOM],
+    ['takeable', BOOL],
+  ]);
+
+  constructor(
+    private readonly gameDefinition: GameDefinition,
+    private readonly symbolsMap: Map<string, SymbolDefinition>,
+    private readonly diagnostics?: DiagnosticCollector,
+  ) {}
+
+  /**
+   * Validates identifier references, property names, loop variable scoping
+   * and operand types of every script.
+   */
+  public check() {
+    const scriptParameters = this.collectScriptParameters();
+
+    for (const script of Object.values(this.gameDefinition.scripts)) {
+      const scope = new Map(scriptParameters.get(script.id));
+
+      this.checkBlock(script.body, scope);
+    }
+  }
+
+  /**
+   * A script can only rely on parameters bound, with the same type, by every
+   * command and hook that executes it.
+   */
+  private collectScriptParameters() {
+    const scriptParameters = new Map<ScriptId, Scope>();
+    const bind = (scriptId: ScriptId, parameters: Scope) => {
+      const existing = scriptParameters.get(scriptId);
+
+      scriptParameters.set(
+        scriptId,
+        existing
+          ? new Map(
+              [...existing].filter(
+                ([name, type]) => parameters.get(name)?.kind === type.kind,
+              ),
+            )
+          : parameters,
+      );
+    };
+
+    for (const command of this.gameDefinition.commands) {
+      bind(
+        command.effect.scriptId,
+        new Map(
+          command.pattern.flatMap((segment) =>
+            segment.kind === 'parameter' ? [[segment.name, ITEM] as const] : [],
+          ),
+        ),
+      );
+    }
+
+    for (const room of Object.values(this.gameDefinition.rooms)) {
+      for (const hook of Object.values(room.events)) {
+        bind(hook.scriptId, new Map([[HOOK_ROOM_PARAMETER, ROOM]]));
+      }
+    }
+
+    for (const item of Object.values(this.gameDefinition.items)) {
+      for (const hook of Object.values(item.events)) {
+        bind(hook.scriptId, new Map([[HOOK_ITEM_PARAMETER, ITEM]]));
+      }
+    }
+
+    for (const hook of this.gameDefinition.turnHooks) {
+      bind(hook.scriptId, new Map());
+    }
+
+    return scriptParameters;
+  }
+
+  private checkBlock(block: ScriptBlock, scope: Scope) {
+    for (const action of block) {
+      this.attempt(() => this.checkAction(action, scope));
+    }
+  }
+
+  /**
+   * Runs `check`, reporting its error so that checking can continue with
+   * the next independent part of the script.
+   */
+  private attempt(check: () => void) {
+    try {
+      check();
+    } catch (error) {
+      reportOrThrow(this.diagnostics, error);
+    }
+  }
+
+  private checkAction(action: ScriptAction, scope: Scope) {
+    switch (action.kind) {
+      case 'message': {
+        if (action.valueExpression) {
+          this.inferType(action.valueExpression, scope);
+        }
+
+        for (const segment of action.messageTemplate ?? []) {
+          if (segment.kind === 'expression') {
+            this.inferType(segment.expression, scope);
+          }
+        }
+        break;
+      }
+      case 'if': {
+        this.attempt(() => this.checkCondition(action.condition, scope));
+        this.checkBlock(action.thenBranch, scope);
+
+        for (const branch of action.elseIfBranches) {
+          this.attempt(() => this.checkCondition(branch.condition, scope));
+          this.checkBlock(branch.body, scope);
+        }
+
+        if (action.elseBranch) {
+          this.checkBlock(action.elseBranch, scope);
+        }
+        break;
+      }
+      case 'for': {
+        let elementType = UNKNOWN;
+
+        this.attempt(() => {
+          const collectionType = this.inferType(action.collection, scope);
+
+          if (collectionType.kind === 'collection') {
+            elementType = collectionType.element;
+          } else {
+            this.expectType(collectionType, 'collection', action.collection);
+          }
+        });
+
+        this.attempt(() => {
+          if (
+            scope.has(action.variableName) ||
+            this.isGlobal(action.variableName)
+          ) {
+            throw new LoopVariableShadowingError(
+              action.variableName,
+              action.line,
+              action.variableCol,
+            );
+          }
+        });
+
+        const loopScope = new Map(scope);
+        loopScope.set(action.variableName, elementType);
+
+        this.checkBlock(action.body, loopScope);
+        break;
+      }
+      case 'set': {
+        const definition =
+          this.gameDefinition.variables[action.target.variableName];
+
+        if (!definition) {
+          throw new UndefinedIdentifierError(
+            'Variable',
+            action.target.variableName,
+            action.target.line,
+            action.target.col,
+            findSuggestion(
+              action.target.variableName,
+              Object.keys(this.gameDefinition.variables),
+            ),
+          );
+        }
+
+        const valueType = this.inferType(action.value, scope);
+        this.checkAssignment(definition, valueType, action.value);
+        break;
+      }
+      case 'take':
+      case 'drop':
+      case 'destroy':
+      case 'examine': {
+        this.expectType(
+          this.inferType(action.item, scope),
+          'item',
+          action.item,
+        );
+        break;
+      }
+      case 'move': {
+        this.expectType(
+          this.inferType(action.item, scope),
+          'item',
+          action.item,
+        );
+        this.expectType(
+          this.inferType(action.destination, scope),
+          'room',
+          action.destination,
+        );
+        break;
+      }
+    }
+  }
+
+  private checkCondition(condition: Condition, scope: Scope) {
+    switch (condition.kind) {
+      case 'comparison': {
+        this.checkComparison(condition, scope);
+        break;
+      }
+      case 'collectionCheck': {
+        const targetType = this.inferType(condition.target, scope);
+
+        if (targetType.kind !== 'room') {
+          this.expectType(targetType, 'collection', condition.target);
+        }
+        break;
+      }
+      case 'logical': {
+        this.checkCondition(condition.left, scope);
+        this.checkCondition(condition.right, scope);
+        break;
+      }
+      case 'not': {
+        this.checkCondition(condition.operand, scope);
+        break;
+      }
+    }
+  }
+
+  private checkComparison(condition: ComparisonCondition, scope: Scope) {
+    const leftType = this.inferType(condition.left, scope);
+    const rightType = this.inferType(condition.right, scope);
+
+    if (condition.operator !== '==' && condition.operator !== '!=') {
+      this.expectType(leftType, 'number', condition.left);
+      this.expectType(rightType, 'number', condition.right);
+      return;
+    }
+
+    const leftCategory = SemanticChecker.getComparisonCategory(leftType);
+    const rightCategory = SemanticChecker.getComparisonCategory(rightType);
+
+    if (
+      leftCategory === 'collection' ||
+      rightCategory === 'collection' ||
+      (leftCategory !== 'unknown' &&
+        rightCategory !== 'unknown' &&
+        leftCategory !== rightCategory)
+    ) {
+      throw new TypeMismatchError(
+        `Cannot compare ${SemanticChecker.describe(leftType)} with ${SemanticChecker.describe(rightType)} using "${condition.operator}"`,
+        condition.line,
+        condition.col,
+        SemanticChecker.getSpanLength(condition.left, condition.right),
+      );
+    }
+  }
+
+  private checkAssignment(
+    definition: GameVariableDefinition,
+    valueType: StaticType,
+    value: Expression,
+  ) {
+    if (valueType.kind === 'unknown') return;
+
+    const isAssignable = (() => {
+      switch (definition.type) {
+        case 'NUMBER':
+          return valueType.kind === 'number';
+        case 'STRING':
+          return valueType.kind === 'string';
+        case 'BOOL':
+          return valueType.kind === 'bool';
+        case 'ID':
+          return definition.name === PLAYER_LOCATION_VAR
+            ? valueType.kind === 'room'
+            : valueType.kind === 'room' || valueType.kind === 'item';
+      }
+    })();
+
+    if (!isAssignable) {
+      const { line, col } = SemanticChecker.getStart(value);
+
+      throw new TypeMismatchError(
+        `Cannot assign ${SemanticChecker.describe(valueType)} to variable "${definition.name}" of type ${definition.type}`,
+        line,
+        col,
+        SemanticChecker.getSpanLength(value, value),
+      );
+    }
+  }
+
+  private inferType(expression: Expression, scope: Scope): StaticType {
+    switch (expression.kind) {
+      case 'numberLiteral':
+        return NUMBER;
+      case 'stringLiteral':
+        return STRING;
+      case 'booleanLiteral':
+        return BOOL;
+      case 'variableAccess':
+        return this.resolveIdentifier(
+          expression.variableName,
+          scope,
+          expression,
+        );
+      case 'indexedAccess': {
+        const objectType = this.inferType(expression.object, scope);
+        this.inferType(expression.index, scope);
+
+        if (objectType.kind === 'collection') return objectType.element;
+
+        this.expectType(objectType, 'collection', expression.object);
+        return UNKNOWN;
+      }
+      case 'propertyAccess': {
+        const objectType = this.inferType(expression.object, scope);
+
+        if (objectType.kind === 'unknown') return UNKNOWN;
+
+        const properties =
+          objectType.kind === 'room'
+            ? SemanticChecker.roomProperties
+            : objectType.kind === 'item'
+              ? SemanticChecker.itemProperties
+              : undefined;
+        const propertyType = properties?.get(expression.propertyName);
+
+        if (!propertyType) {
+          throw new UnknownPropertyError(
+            expression.propertyName,
+            SemanticChecker.describe(objectType),
+            expression.line,
+            expression.col,
+            findSuggestion(expression.propertyName, properties?.keys() ?? []),
+          );
+        }
+
+        return propertyType;
+      }
+      case 'binary': {
+        const leftType = this.inferType(expression.left, scope);
+        const rightType = this.inferType(expression.right, scope);
+
+        if (
+          expression.operator === '+' &&
+          (leftType.kind === 'string' || rightType.kind === 'string')
+        ) {
+          return STRING;
+        }
+
+        this.expectType(leftType, 'number', expression.left);
+        this.expectType(rightType, 'number', expression.right);
+        return NUMBER;
+      }
+    }
+  }
+
+  /**
+   * Mirrors the runtime lookup order: loop variables and parameters, game
+   * variables, built-in collections and finally entity ids.
+   */
+  private resolveIdentifier(
+    name: string,
+    scope: Scope,
+    position: Pick<Expression, 'line' | 'col'>,
+  ): StaticType {
+    const scoped = scope.get(name);
+    if (scoped) return scoped;
+
+    const variable = this.gameDefinition.variables[name];
+    if (variable) return this.getVariableType(variable);
+
+    switch (name) {
+      case ROOMS_COLLECTION:
+        return { kind: 'collection', element: ROOM };
+      case ITEMS_COLLECTION:
+      case INVENTORY_COLLECTION:
+        return { kind: 'collection', element: ITEM };
+    }
+
+    const symbol = this.symbolsMap.get(name);
+    if (symbol?.type === NamedEntities.ROOM) return ROOM;
+    if (symbol?.type === NamedEntities.ITEM) return ITEM;
+
+    const knownNames = [
+      ...scope.keys(),
+      ...Object.keys(this.gameDefinition.variables),
+      ROOMS_COLLECTION,
+      ITEMS_COLLECTION,
+      INVENTORY_COLLECTION,
+      ...[...this.symbolsMap]
+        .filter(
+          ([, { type }]) =>
+            type === NamedEntities.ROOM || type === NamedEntities.ITEM,
+        )
+        .map(([symbolName]) => symbolName),
+    ];
+
+    throw new UndefinedIdentifierError(
+      'Identifier',
+      name,
+      position.line,
+      position.col,
+      findSuggestion(name, knownNames),
+    );
+  }
+
+  private getVariableType(variable: GameVariableDefinition): StaticType {
+    switch (variable.type) {
+      case 'NUMBER':
+        return NUMBER;
+      case 'STRING':
+        return STRING;
+      case 'BOOL':
+        return BOOL;
+      case 'ID':
+        // other ID variables may be SET to either a room or an item
+        return variable.name === PLAYER_LOCATION_VAR ? ROOM : UNKNOWN;
+    }
+  }
+
+  private isGlobal(name: string) {
+    return (
+      name in this.gameDefinition.variables ||
+      name === ROOMS_COLLECTION ||
+      name === ITEMS_COLLECTION ||
+      name === INVENTORY_COLLECTION
+    );
+  }
+
+  private expectType(
+    actual: StaticType,
+    expected: StaticType['kind'],
+    expression: Expression,
+  ) {
+    if (actual.kind === 'unknown' || actual.kind === expected) return;
+
+    const { line, col } = SemanticChecker.getStart(expression);
+
+    throw new TypeMismatchError(
+      `Expected ${expected} but found ${SemanticChecker.describe(actual)}`,
+      line,
+      col,
+      SemanticChecker.getSpanLength(expression, expression),
+    );
+  }
+
+  /**
+   * Length of the source from the start of `first` to the end of `last`,
+   * for underlining expressions. Expressions keep no position for their
+   * closing brackets, so those are assumed to follow without spaces.
+   */
+  private static getSpanLength(first: Expression, last: Expression) {
+    const start = SemanticChecker.getStart(first);
+    const end = SemanticChecker.getEnd(last);
+
+    // only the first line of a span is underlined
+    return end.line === start.line ? Math.max(end.col - start.col, 1) : 1;
+  }
+
+  private static getStart(expression: Expression): SourcePosition {
+    switch (expression.kind) {
+      case 'propertyAccess':
+      case 'indexedAccess':
+        return SemanticChecker.getStart(expression.object);
+      case 'binary':
+        return SemanticChecker.getStart(expression.left);
+      default:
+        return { line: expression.line, col: expression.col };
+    }
+  }
+
+  // the position just past the end of the expression
+  private static getEnd(expression: Expression): SourcePosition {
+    const { line, col } = expression;
+
+    switch (expression.kind) {
+      case 'variableAccess':
+        return { line, col: col + expression.variableName.length };
+      case 'propertyAccess':
+        return { line, col: col + expression.propertyName.length };
+      case 'indexedAccess': {
+        const indexEnd = SemanticChecker.getEnd(expression.index);
+
+        return { line: indexEnd.line, col: indexEnd.col + 1 };
+      }
+      case 'binary':
+        return SemanticChecker.getEnd(expression.right);
+      case 'stringLiteral':
+        return { line, col: col + JSON.stringify(expression.value).length };
+      case 'numberLiteral':
+      case 'booleanLiteral':
+        return { line, col: col + String(expression.value).length };
+    }
+  }
+
+  private static getComparisonCategory(type: StaticType) {
+    switch (type.kind) {
+      // ids are compared as text at runtime
+      case 'string':
+      case 'room':
+      case 'item':
+        return 'text';
+      default:
+        return type.kind;
+    }
+  }
+
+  private static describe(type: StaticType): string {
+    return type.kind === 'collection'
+      ? `collection of ${SemanticChecker.describe(type.element)}`
+      : type.kind;
+  }
+}
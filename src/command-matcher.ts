@@ -0,0 +1,101 @@
+import type { CommandDefinition, CommandMatch, CommandPattern } from './types';
+import type { InputNormalizer } from './input-normalizer';
+
+interface CompiledPattern {
+  command: CommandDefinition;
+  regex: RegExp;
+  parameterNames: string[];
+  literalWordCount: number;
+  isAlias: boolean;
+}
+
+export class CommandMatcher {
+  private compiledPatterns: CompiledPattern[];
+
+  constructor(
+    commands: CommandDefinition[],
+    private readonly normalizer: InputNormalizer,
+  ) {
+    const compiledPatterns = commands.flatMap((command) => [
+      this.compile(command, command.pattern, false),
+      ...command.aliases.map((alias) =>
+        this.compile(command, alias.pattern, true),
+      ),
+    ]);
+
+    // Array.prototype.sort is stable, so ties keep definition order
+    this.compiledPatterns = compiledPatterns.sort((a, b) =>
+      CommandMatcher.byPrecedence(a, b),
+    );
+  }
+
+  /**
+   * Finds the pattern with the highest precedence that matches the whole
+   * normalized input. Parameters capture one or more words.
+   */
+  public match(input: string): CommandMatch | undefined {
+    const normalizedInput = this.normalizer.normalize(input);
+
+    for (const { command, regex, parameterNames } of this.compiledPatterns) {
+      const result = regex.exec(normalizedInput);
+
+      if (!result) continue;
+
+      const args = new Map<string, string>();
+      parameterNames.forEach((name, index) => {
+        const value = result[index + 1];
+        if (value !== undefined) args.set(name, value);
+      });
+
+      return { command, args };
+    }
+
+    return undefined;
+  }
+
+  private compile(
+    command: CommandDefinition,
+    pattern: CommandPattern,
+    isAlias: boolean,
+  ): CompiledPattern {
+    const parameterNames: string[] = [];
+    let literalWordCount = 0;
+
+    const parts = pattern.flatMap((segment) => {
+      if (segment.kind === 'parameter') {
+        parameterNames.push(segment.name);
+        return ['(.+?)'];
+      }
+
+      const word = this.normalizer.normalize(segment.value);
+      if (!word) return [];
+
+      literalWordCount += word.split(' ').length;
+      return [CommandMatcher.escape(word).replace(/ /g, '\\s+')];
+    });
+
+    return {
+      command,
+      regex: new RegExp(`^${parts.join('\\s+')}$`),
+      parameterNames,
+      literalWordCount,
+      isAlias,
+    };
+  }
+
+  /**
+   * More literal words win, then fewer parameters, then a command's own
+   * verb over an alias.
+   */
+  private static byPrecedence(a: CompiledPattern, b: CompiledPattern) {
+    return (
+      b.literalWordCount - a.literalWordCount ||
+      a.parameterNames.length - b.parameterNames.length ||
+      Number(a.isAlias) - Number(b.isAlias)
+    );
+  }
+
+  private static escape(word: string) {
+    return word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
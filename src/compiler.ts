@@ -0,0 +1,59 @@
+import { SymbolParser } from './symbols';
+import { Parser } from './parser';
+import { SemanticChecker } from './checker';
+import { DiagnosticCollector } from './diagnostics';
+import { SourceLoader } from './source-loader';
+import { SourceMap } from './source-map';
+import { FileSourceHost } from './file-source-host';
+import type {
+  Diagnostic,
+  GameDefinition,
+  SourceHost,
+  SymbolDefinition,
+} from './types';
+
+// labels sources compiled without a file, includes resolve from its directory
+const DEFAULT_SOURCE_FILE = 'main.scribe';
+
+export interface CompileResult {
+  gameDefinition: GameDefinition;
+  symbols: Map<string, SymbolDefinition>;
+  diagnostics: Diagnostic[];
+  // maps the line numbers in `gameDefinition` back to their files
+  sourceMap: SourceMap;
+}
+
+export class Compiler {
+  constructor(private readonly host: SourceHost = new FileSourceHost()) {}
+
+  /**
+   * Runs every compilation phase, collecting all diagnostics instead of
+   * stopping at the first error. Semantic checks only run on sources that
+   * parsed cleanly, as a broken tree mostly yields follow-up errors.
+   *
+   * Files included by `source` are resolved relative to `file` and read
+   * through the compiler's host.
+   */
+  public compile(source: string, file = DEFAULT_SOURCE_FILE): CompileResult {
+    const sourceMap = new SourceMap();
+    const diagnostics = new DiagnosticCollector(sourceMap);
+
+    const tokens = new SourceLoader(this.host, sourceMap, diagnostics).load(
+      source,
+      file,
+    );
+    const symbols = new SymbolParser(tokens, diagnostics).parse();
+    const gameDefinition = new Parser(tokens, symbols, diagnostics).parse();
+
+    if (!diagnostics.hasErrors()) {
+      new SemanticChecker(gameDefinition, symbols, diagnostics).check();
+    }
+
+    return {
+      gameDefinition,
+      symbols,
+      diagnostics: diagnostics.getDiagnostics(),
+      sourceMap,
+    };
+  }
+}
@@ -0,0 +1,25 @@
+// item locations that are not rooms, chosen so they can never be identifiers
+export const INVENTORY_LOCATION = '@inventory';
+export const NOWHERE_LOCATION = '';
+
+// built-in collections scripts can reference by name
+export const ROOMS_COLLECTION = 'rooms';
+export const ITEMS_COLLECTION = 'items';
+export const INVENTORY_COLLECTION = 'inventory';
+
+// bumped whenever the shape of saved games changes
+export const SAVE_FORMAT_VERSION = 1;
+
+// marks and versions compiled game bundles, bumped whenever their shape changes
+export const BUNDLE_FORMAT = 'scribe-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+// how many turns can be undone before the oldest are forgotten
+export const MAX_UNDO_TURNS = 100;
+
+// how deeply scripts may run within each other, as hooks can fire each other
+export const MAX_SCRIPT_DEPTH = 64;
+
+// parameters binding the room or item an ON hook fired for
+export const HOOK_ROOM_PARAMETER = 'room';
+export const HOOK_ITEM_PARAMETER = 'item';
@@ -0,0 +1,2 @@
+// opens and closes strings that may span several lines
+export const TRIPLE_QUOTE = '"""';
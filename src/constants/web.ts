@@ -0,0 +1,8 @@
+// elements the exported page is made of, shared by the exporter and the page
+export const GAME_DATA_ELEMENT_ID = 'scribe-game';
+export const TRANSCRIPT_ELEMENT_ID = 'scribe-transcript';
+export const COMMAND_FORM_ELEMENT_ID = 'scribe-command-form';
+export const COMMAND_INPUT_ELEMENT_ID = 'scribe-command';
+
+// prefixes local storage keys, which every page of an origin shares
+export const LOCAL_SAVE_KEY_PREFIX = 'scribe';
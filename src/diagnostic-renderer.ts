@@ -0,0 +1,80 @@
+import { DiagnosticCollector } from './diagnostics';
+import type { SourceMap } from './source-map';
+import type { Diagnostic } from './types';
+
+const GUTTER_SEPARATOR = ' | ';
+
+export class DiagnosticRenderer {
+  private readonly lines = new Map<string, string[]>();
+
+  constructor(private readonly sourceMap: SourceMap) {}
+
+  /**
+   * Renders `diagnostic` with the offending source line and a caret
+   * underline, e.g.
+   *
+   *   error[undefined-identifier]: Unknown Identifier "room"
+   *    --> main.scribe:53:6
+   *      |
+   *   53 |   IF room[playerLocation] HAS ITEMS THEN
+   *      |      ^^^^
+   *      = help: did you mean "rooms"?
+   */
+  public render(diagnostic: Diagnostic) {
+    const { severity, code, message, range, file } = diagnostic;
+    const { suggestion, previousDefinition } = diagnostic;
+    const { line, col } = range.start;
+    const lineNumber = String(line);
+    const gutter = ' '.repeat(lineNumber.length);
+    const output = [
+      `${severity}[${code}]: ${message}`,
+      `${gutter}--> ${DiagnosticCollector.formatLocation({ file, line, col })}`,
+    ];
+
+    const sourceLine = file ? this.getLines(file)[line - 1] : undefined;
+
+    if (sourceLine !== undefined) {
+      output.push(
+        `${gutter}${GUTTER_SEPARATOR.trimEnd()}`,
+        `${lineNumber}${GUTTER_SEPARATOR}${sourceLine}`,
+        `${gutter}${GUTTER_SEPARATOR}${DiagnosticRenderer.underline(sourceLine, diagnostic)}`,
+      );
+    }
+
+    if (previousDefinition) {
+      output.push(
+        `${gutter} = note: first defined at ${DiagnosticCollector.formatLocation(previousDefinition)}`,
+      );
+    }
+
+    if (suggestion) {
+      output.push(`${gutter} = help: did you mean "${suggestion}"?`);
+    }
+
+    return output.join('\n');
+  }
+
+  private getLines(file: string) {
+    let lines = this.lines.get(file);
+
+    if (!lines) {
+      lines = (this.sourceMap.getSource(file) ?? '').split(/\r?\n/);
+      this.lines.set(file, lines);
+    }
+
+    return lines;
+  }
+
+  private static underline(sourceLine: string, diagnostic: Diagnostic) {
+    const { start, end } = diagnostic.range;
+    // keep tabs so the carets line up with the source as the terminal shows it
+    const padding = sourceLine.slice(0, start.col - 1).replace(/[^\t]/g, ' ');
+    const available = Math.max(sourceLine.length - start.col + 1, 1);
+    const length =
+      end.line === start.line
+        ? Math.min(Math.max(end.col - start.col, 1), available)
+        : available;
+
+    return `${padding}${'^'.repeat(length)}`;
+  }
+}
@@ -0,0 +1,85 @@
+import { ScribeError } from './errors/base';
+import type { SourceMap } from './source-map';
+import type { Diagnostic, DiagnosticSeverity, SourceLocation } from './types';
+
+export class DiagnosticCollector {
+  private diagnostics: Diagnostic[] = [];
+
+  /**
+   * Positions are reported against the files in `sourceMap` when given.
+   */
+  constructor(private readonly sourceMap?: SourceMap) {}
+
+  /**
+   * Records `error` unless a diagnostic was already reported at the same
+   * position, since later phases often trip over an earlier mistake.
+   */
+  public report(error: ScribeError, severity: DiagnosticSeverity = 'error') {
+    const { file, line, col } = this.resolve(error.line, error.col);
+    const isDuplicate = this.diagnostics.some(
+      ({ range, ...diagnostic }) =>
+        diagnostic.file === file &&
+        range.start.line === line &&
+        range.start.col === col,
+    );
+
+    if (isDuplicate) return;
+
+    error.file ??= file;
+
+    this.diagnostics.push({
+      severity,
+      code: error.code,
+      message: error.description,
+      range: {
+        start: { line, col },
+        end: { line, col: col + error.length },
+      },
+      file: error.file,
+      suggestion: error.suggestion,
+      previousDefinition:
+        error.previousDefinition &&
+        this.resolve(
+          error.previousDefinition.line,
+          error.previousDefinition.col,
+        ),
+    });
+  }
+
+  public hasErrors() {
+    return this.diagnostics.some(({ severity }) => severity === 'error');
+  }
+
+  public getDiagnostics(): Diagnostic[] {
+    return [...this.diagnostics].sort(
+      (a, b) =>
+        (a.file ?? '').localeCompare(b.file ?? '') ||
+        a.range.start.line - b.range.start.line ||
+        a.range.start.col - b.range.start.col,
+    );
+  }
+
+  private resolve(line: number, col: number) {
+    return this.sourceMap?.resolve(line, col) ?? { line, col };
+  }
+
+  public static formatLocation(location: SourceLocation) {
+    const { file, line, col } = location;
+
+    return `${file ? `${file}:` : ''}${line}:${col}`;
+  }
+}
+
+/**
+ * How the compiler phases handle errors: collected into `diagnostics` when
+ * given, so a phase can carry on and report them all, otherwise thrown.
+ * Anything but a ScribeError is a bug and always thrown.
+ */
+export function reportOrThrow(
+  diagnostics: DiagnosticCollector | undefined,
+  error: unknown,
+) {
+  if (!(error instanceof ScribeError) || !diagnostics) throw error;
+
+  diagnostics.report(error);
+}
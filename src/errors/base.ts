@@ -0,0 +1,25 @@
+import type { SourcePosition } from '../types';
+
+export abstract class ScribeError extends Error {
+  // set once the error is known to belong to a particular source file
+  public file?: string;
+  public suggestion?: string;
+
+  constructor(
+    public readonly code: string,
+    public readonly description: string,
+    public readonly line: number,
+    public readonly col: number,
+    public readonly length = 1,
+    // where a duplicated definition was first made
+    public readonly previousDefinition?: SourcePosition,
+  ) {
+    super(
+      `${line}:${col}: ${description}${
+        previousDefinition
+          ? ` (first defined at ${previousDefinition.line}:${previousDefinition.col})`
+          : ''
+      }`,
+    );
+  }
+}
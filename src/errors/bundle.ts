@@ -0,0 +1,23 @@
+export abstract class BundleError extends Error {}
+
+export class InvalidBundleError extends BundleError {
+  constructor(reason: string) {
+    super(`The game bundle is invalid: ${reason}`);
+    this.name = 'InvalidBundleError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, InvalidBundleError);
+    }
+  }
+}
+
+export class UnsupportedBundleVersionError extends BundleError {
+  constructor(version: unknown) {
+    super(`Game bundle format version ${String(version)} is not supported`);
+    this.name = 'UnsupportedBundleVersionError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnsupportedBundleVersionError);
+    }
+  }
+}
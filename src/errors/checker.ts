@@ -0,0 +1,53 @@
+import { ScribeError } from './base';
+
+export class TypeMismatchError extends ScribeError {
+  constructor(message: string, line: number, col: number, length?: number) {
+    super('type-mismatch', `${message}`, line, col, length);
+    this.name = 'TypeMismatchError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TypeMismatchError);
+    }
+  }
+}
+
+export class UnknownPropertyError extends ScribeError {
+  constructor(
+    property: string,
+    type: string,
+    line: number,
+    col: number,
+    suggestion?: string,
+  ) {
+    super(
+      'unknown-property',
+      `Property "${property}" does not exist on ${type}`,
+      line,
+      col,
+      property.length,
+    );
+    this.name = 'UnknownPropertyError';
+    this.suggestion = suggestion;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnknownPropertyError);
+    }
+  }
+}
+
+export class LoopVariableShadowingError extends ScribeError {
+  constructor(name: string, line: number, col: number) {
+    super(
+      'shadowed-loop-variable',
+      `Loop variable "${name}" shadows a variable that is already in scope`,
+      line,
+      col,
+      name.length,
+    );
+    this.name = 'LoopVariableShadowingError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, LoopVariableShadowingError);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { ScribeError } from './base';
+
+export class UnformattableLineError extends ScribeError {
+  constructor(line: number, col: number, length: number) {
+    super(
+      'unformattable-line',
+      'Formatting would drop this line, as it is not part of any definition',
+      line,
+      col,
+      length,
+    );
+    this.name = 'UnformattableLineError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnformattableLineError);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { ScribeError } from './base';
+
+export class RuntimeError extends ScribeError {
+  constructor(message: string, line: number, col: number) {
+    super('runtime-error', `${message}`, line, col);
+    this.name = 'RuntimeError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RuntimeError);
+    }
+  }
+}
+
+export class UndefinedScriptError extends ScribeError {
+  constructor(scriptId: string, line: number, col: number) {
+    super('undefined-script', `Script "${scriptId}" is not defined`, line, col);
+    this.name = 'UndefinedScriptError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UndefinedScriptError);
+    }
+  }
+}
@@ -1,6 +1,8 @@
-export class LexerError extends Error {
-  constructor(message: string) {
-    super(message);
+import { ScribeError } from './base';
+
+export class LexerError extends ScribeError {
+  constructor(message: string, line: number, col: number, length?: number) {
+    super('lexer-error', message, line, col, length);
     this.name = 'LexerError';
 
     if (Error.captureStackTrace) {
@@ -0,0 +1,35 @@
+import { ScribeError } from './base';
+
+export class IncludeNotFoundError extends ScribeError {
+  constructor(includePath: string, line: number, col: number, length: number) {
+    super(
+      'include-not-found',
+      `Included file "${includePath}" does not exist`,
+      line,
+      col,
+      length,
+    );
+    this.name = 'IncludeNotFoundError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, IncludeNotFoundError);
+    }
+  }
+}
+
+export class IncludeCycleError extends ScribeError {
+  constructor(cycle: string[], line: number, col: number, length: number) {
+    super(
+      'include-cycle',
+      `Files include each other: ${cycle.join(' -> ')}`,
+      line,
+      col,
+      length,
+    );
+    this.name = 'IncludeCycleError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, IncludeCycleError);
+    }
+  }
+}
@@ -1,4 +1,6 @@
-export class VariableAlreadyDefinedError extends Error {
+import { ScribeError } from './base';
+
+export class VariableAlreadyDefinedError extends ScribeError {
   constructor(
     name: string,
     varLine: number,
@@ -7,7 +9,12 @@ export class VariableAlreadyDefinedError extends Error {
     currentCol: number,
   ) {
     super(
-      `${currentLine}:${currentCol}: Variable "${name}" already defined at Line ${varLine}, Column ${varCol}`,
+      'duplicate-variable',
+      `Variable "${name}" already defined`,
+      currentLine,
+      currentCol,
+      name.length,
+      { line: varLine, col: varCol },
     );
     this.name = 'VariableAlreadyDefinedError';
 
@@ -17,10 +24,13 @@ export class VariableAlreadyDefinedError extends Error {
   }
 }
 
-export class MissingVariableNameError extends Error {
+export class MissingVariableNameError extends ScribeError {
   constructor(line: number, col: number) {
     super(
-      `${line}:${col}: Invalid definition of a variable, missing identifier.`,
+      'missing-variable-name',
+      `Invalid definition of a variable, missing identifier.`,
+      line,
+      col,
     );
     this.name = 'MissingVariableNameError';
 
@@ -30,10 +40,13 @@ export class MissingVariableNameError extends Error {
   }
 }
 
-export class MissingItemIdentifierError extends Error {
+export class MissingItemIdentifierError extends ScribeError {
   constructor(line: number, col: number) {
     super(
-      `${line}:${col}: Item missing an identifier. Define an item with ID=<identifier>`,
+      'missing-item-id',
+      `Item missing an identifier. Define an item with ID=<identifier>`,
+      line,
+      col,
     );
     this.name = 'MissingItemIdentifier';
 
@@ -43,7 +56,7 @@ export class MissingItemIdentifierError extends Error {
   }
 }
 
-export class ItemAlreadyDefinedError extends Error {
+export class ItemAlreadyDefinedError extends ScribeError {
   constructor(
     name: string,
     itemLine: number,
@@ -52,7 +65,12 @@ export class ItemAlreadyDefinedError extends Error {
     currentCol: number,
   ) {
     super(
-      `${currentLine}:${currentCol}: Item "${name}" already defined at Line ${itemLine}, Column ${itemCol}`,
+      'duplicate-item',
+      `Item "${name}" already defined`,
+      currentLine,
+      currentCol,
+      name.length,
+      { line: itemLine, col: itemCol },
     );
     this.name = 'ItemAlreadyDefinedError';
 
@@ -62,9 +80,9 @@ export class ItemAlreadyDefinedError extends Error {
   }
 }
 
-export class MissingRoomIdentifierError extends Error {
+export class MissingRoomIdentifierError extends ScribeError {
   constructor(line: number, col: number) {
-    super(`${line}:${col}: Room missing an identifier.`);
+    super('missing-room-id', `Room missing an identifier.`, line, col);
     this.name = 'MissingRoomIdentifier';
 
     if (Error.captureStackTrace) {
@@ -73,7 +91,7 @@ export class MissingRoomIdentifierError extends Error {
   }
 }
 
-export class RoomAlreadyDefinedError extends Error {
+export class RoomAlreadyDefinedError extends ScribeError {
   constructor(
     name: string,
     itemLine: number,
@@ -82,7 +100,12 @@ export class RoomAlreadyDefinedError extends Error {
     currentCol: number,
   ) {
     super(
-      `${currentLine}:${currentCol}: Room "${name}" already defined at Line ${itemLine}, Column ${itemCol}`,
+      'duplicate-room',
+      `Room "${name}" already defined`,
+      currentLine,
+      currentCol,
+      name.length,
+      { line: itemLine, col: itemCol },
     );
     this.name = 'RoomAlreadyDefinedError';
 
@@ -92,9 +115,73 @@ export class RoomAlreadyDefinedError extends Error {
   }
 }
 
-export class MissingScriptIdentifierError extends Error {
+export class ExitAlreadyDefinedError extends ScribeError {
+  constructor(
+    direction: string,
+    exitLine: number,
+    exitCol: number,
+    currentLine: number,
+    currentCol: number,
+  ) {
+    super(
+      'duplicate-exit',
+      `Exit "${direction}" already defined`,
+      currentLine,
+      currentCol,
+      direction.length,
+      { line: exitLine, col: exitCol },
+    );
+    this.name = 'ExitAlreadyDefinedError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ExitAlreadyDefinedError);
+    }
+  }
+}
+
+export class HookAlreadyDefinedError extends ScribeError {
+  constructor(
+    event: string,
+    hookLine: number,
+    hookCol: number,
+    currentLine: number,
+    currentCol: number,
+  ) {
+    super(
+      'duplicate-hook',
+      `Hook "ON ${event}" already defined`,
+      currentLine,
+      currentCol,
+      'ON'.length,
+      { line: hookLine, col: hookCol },
+    );
+    this.name = 'HookAlreadyDefinedError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, HookAlreadyDefinedError);
+    }
+  }
+}
+
+export class MissingCommandEffectError extends ScribeError {
+  constructor(verb: string, line: number, col: number) {
+    super(
+      'missing-command-effect',
+      `COMMAND "${verb}" is missing an EFFECT`,
+      line,
+      col,
+    );
+    this.name = 'MissingCommandEffectError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MissingCommandEffectError);
+    }
+  }
+}
+
+export class MissingScriptIdentifierError extends ScribeError {
   constructor(line: number, col: number) {
-    super(`${line}:${col}: Script missing an identifier`);
+    super('missing-script-id', `Script missing an identifier`, line, col);
     this.name = 'MissingScriptIdentifier';
 
     if (Error.captureStackTrace) {
@@ -103,7 +190,7 @@ export class MissingScriptIdentifierError extends Error {
   }
 }
 
-export class ScriptAlreadyDefinedError extends Error {
+export class ScriptAlreadyDefinedError extends ScribeError {
   constructor(
     name: string,
     itemLine: number,
@@ -112,7 +199,12 @@ export class ScriptAlreadyDefinedError extends Error {
     currentCol: number,
   ) {
     super(
-      `${currentLine}:${currentCol}: Script "${name}" already defined at Line ${itemLine}, Column ${itemCol}`,
+      'duplicate-script',
+      `Script "${name}" already defined`,
+      currentLine,
+      currentCol,
+      name.length,
+      { line: itemLine, col: itemCol },
     );
     this.name = 'ScriptAlreadyDefinedError';
 
@@ -122,9 +214,9 @@ export class ScriptAlreadyDefinedError extends Error {
   }
 }
 
-export class UnterminatedBlockError extends Error {
+export class UnterminatedBlockError extends ScribeError {
   constructor(startLine: number, startCol: number) {
-    super(`${startLine}:${startCol}: Missing End Block`);
+    super('unterminated-block', `Missing End Block`, startLine, startCol);
     this.name = 'UnterminatedBlockError';
 
     if (Error.captureStackTrace) {
@@ -133,9 +225,9 @@ export class UnterminatedBlockError extends Error {
   }
 }
 
-export class UnexpectedTokenError extends Error {
-  constructor(message: string, line: number, col: number) {
-    super(`${line}:${col}: ${message}`);
+export class UnexpectedTokenError extends ScribeError {
+  constructor(message: string, line: number, col: number, length?: number) {
+    super('unexpected-token', `${message}`, line, col, length);
     this.name = 'UnexpectedTokenError';
 
     if (Error.captureStackTrace) {
@@ -144,10 +236,23 @@ export class UnexpectedTokenError extends Error {
   }
 }
 
-export class UndefinedIdentifierError extends Error {
-  constructor(type: string, identifier: string, line: number, col: number) {
-    super(`${line}:${col}: Unknown ${type} "${identifier}"`);
+export class UndefinedIdentifierError extends ScribeError {
+  constructor(
+    type: string,
+    identifier: string,
+    line: number,
+    col: number,
+    suggestion?: string,
+  ) {
+    super(
+      'undefined-identifier',
+      `Unknown ${type} "${identifier}"`,
+      line,
+      col,
+      identifier.length,
+    );
     this.name = 'UndefinedIdentifierError';
+    this.suggestion = suggestion;
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, UndefinedIdentifierError);
@@ -155,9 +260,9 @@ export class UndefinedIdentifierError extends Error {
   }
 }
 
-export class ReferenceError extends Error {
+export class ReferenceError extends ScribeError {
   constructor(message: string, line: number, col: number) {
-    super(`${line}:${col}: ${message}`);
+    super('invalid-reference', `${message}`, line, col);
     this.name = 'ReferenceError';
 
     if (Error.captureStackTrace) {
@@ -166,9 +271,9 @@ export class ReferenceError extends Error {
   }
 }
 
-export class InvalidNumberFormatError extends Error {
+export class InvalidNumberFormatError extends ScribeError {
   constructor(message: string, line: number, col: number) {
-    super(`${line}:${col}: ${message}`);
+    super('invalid-number', `${message}`, line, col);
     this.name = 'InvalidNumberFormatError';
 
     if (Error.captureStackTrace) {
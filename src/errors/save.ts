@@ -0,0 +1,34 @@
+export abstract class SaveError extends Error {}
+
+export class InvalidSaveError extends SaveError {
+  constructor(reason: string) {
+    super(`The save is damaged: ${reason}`);
+    this.name = 'InvalidSaveError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, InvalidSaveError);
+    }
+  }
+}
+
+export class UnsupportedSaveVersionError extends SaveError {
+  constructor(version: number) {
+    super(`Save format version ${version} is not supported`);
+    this.name = 'UnsupportedSaveVersionError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnsupportedSaveVersionError);
+    }
+  }
+}
+
+export class IncompatibleSaveError extends SaveError {
+  constructor() {
+    super('The save was made for a different version of this game');
+    this.name = 'IncompatibleSaveError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, IncompatibleSaveError);
+    }
+  }
+}
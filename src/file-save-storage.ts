@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+import type { SaveStorage } from './types';
+
+export class FileSaveStorage implements SaveStorage {
+  constructor(private readonly directory: string) {}
+
+  public read(slot: string): string | undefined {
+    try {
+      return fs.readFileSync(this.getSlotPath(slot), 'utf8');
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        'code' in error &&
+        error.code === 'ENOENT'
+      ) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  public write(slot: string, data: string) {
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.getSlotPath(slot), data);
+  }
+
+  private getSlotPath(slot: string) {
+    return path.join(this.directory, `${slot}.json`);
+  }
+}
@@ -0,0 +1,20 @@
+import fs from 'fs';
+import type { SourceHost } from './types';
+
+export class FileSourceHost implements SourceHost {
+  public readFile(path: string): string | undefined {
+    try {
+      return fs.readFileSync(path, 'utf8');
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        'code' in error &&
+        error.code === 'ENOENT'
+      ) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, test } from 'bun:test';
+import { Formatter } from './formatter';
+
+/** The formatted text of a single `source`, failing on any diagnostic. */
+function format(source: string) {
+  const { files, diagnostics } = new Formatter().format(source, 'main.scribe');
+
+  expect(diagnostics).toEqual([]);
+  expect(files).toHaveLength(1);
+  return files[0]?.formatted ?? '';
+}
+
+describe('Formatter', () => {
+  test('lays out messy sources in the canonical form', () => {
+    const formatted = format(`VAR playerLocation=cave
+VAR hp   =  10
+# the only room
+ROOM "Cave"   ID=cave
+      DESC "A dark cave."
+   EXIT north=cave
+COMMAND "hurt"
+    EFFECT   EXECUTE hurt
+SCRIPT hurt
+SET hp = hp-(1+2)*3
+      IF hp<5 AND NOT hp==0 THEN
+  MESSAGE "low: {hp}"
+    ENDIF
+ENDSCRIPT
+`);
+
+    expect(formatted).toBe(`VAR playerLocation = cave
+VAR hp = 10
+
+# the only room
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+  EXIT north = cave
+
+COMMAND "hurt"
+  EFFECT EXECUTE hurt
+
+SCRIPT hurt
+  SET hp = hp - (1 + 2) * 3
+  IF hp < 5 AND NOT hp == 0 THEN
+    MESSAGE "low: {hp}"
+  ENDIF
+ENDSCRIPT
+`);
+    expect(format(formatted)).toBe(formatted);
+  });
+
+  test('leaves the formatted sample program unchanged', () => {
+    const file = path.join(import.meta.dir, 'programs', 'main.scribe');
+    const { files, diagnostics } = new Formatter().format(
+      fs.readFileSync(file, 'utf8'),
+      file,
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(files.length).toBeGreaterThan(1);
+    for (const { formatted, source } of files) {
+      expect(formatted).toBe(source);
+    }
+  });
+});
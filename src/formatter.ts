@@ -0,0 +1,61 @@
+import { SymbolParser } from './symbols';
+import { Parser } from './parser';
+import { Printer } from './printer';
+import { DiagnosticCollector } from './diagnostics';
+import { SourceLoader } from './source-loader';
+import { SourceMap } from './source-map';
+import { FileSourceHost } from './file-source-host';
+import type { Diagnostic, SourceHost } from './types';
+
+export interface FormattedFile {
+  file: string;
+  source: string;
+  formatted: string;
+}
+
+export interface FormatResult {
+  // every file of the program, empty when it could not be formatted
+  files: FormattedFile[];
+  diagnostics: Diagnostic[];
+  sourceMap: SourceMap;
+}
+
+export class Formatter {
+  constructor(private readonly host: SourceHost = new FileSourceHost()) {}
+
+  /**
+   * Formats `source` and the files it includes, which are parsed together
+   * since a file on its own may refer to names defined in the others.
+   * Nothing is formatted when the program has syntax errors.
+   */
+  public format(source: string, file: string): FormatResult {
+    const sourceMap = new SourceMap();
+    const diagnostics = new DiagnosticCollector(sourceMap);
+
+    const tokens = new SourceLoader(this.host, sourceMap, diagnostics).load(
+      source,
+      file,
+    );
+    const symbols = new SymbolParser(tokens, diagnostics).parse();
+    const gameDefinition = new Parser(tokens, symbols, diagnostics).parse();
+
+    const files = diagnostics.hasErrors()
+      ? []
+      : sourceMap.getFiles().map((programFile) => ({
+          file: programFile,
+          source: sourceMap.getSource(programFile) ?? '',
+          formatted: new Printer(
+            gameDefinition,
+            sourceMap,
+            programFile,
+            diagnostics,
+          ).print(),
+        }));
+
+    return {
+      files: diagnostics.hasErrors() ? [] : files,
+      diagnostics: diagnostics.getDiagnostics(),
+      sourceMap,
+    };
+  }
+}
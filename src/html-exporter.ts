@@ -0,0 +1,114 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BundleSerializer } from './bundle';
+import {
+  COMMAND_FORM_ELEMENT_ID,
+  COMMAND_INPUT_ELEMENT_ID,
+  GAME_DATA_ELEMENT_ID,
+  TRANSCRIPT_ELEMENT_ID,
+} from './constants/web';
+import type { GameDefinition } from './types';
+
+// the runtime as `npm run build` leaves it next to the built CLI
+const BUILT_RUNTIME = path.join(import.meta.dirname, 'web', 'main.js');
+const RUNTIME_ENTRY = path.join(import.meta.dirname, 'web', 'main.ts');
+
+const STYLES = `
+  html, body { height: 100%; margin: 0; }
+  body {
+    display: flex;
+    flex-direction: column;
+    background: #1b1b1b;
+    color: #e8e8e8;
+    font: 16px/1.5 ui-monospace, Menlo, Consolas, monospace;
+  }
+  #${TRANSCRIPT_ELEMENT_ID} { flex: 1; overflow-y: auto; padding: 1rem; }
+  #${TRANSCRIPT_ELEMENT_ID} p { margin: 0; white-space: pre-wrap; }
+  #${TRANSCRIPT_ELEMENT_ID} .input { color: #8fc1ff; margin-top: 0.75rem; }
+  #${COMMAND_FORM_ELEMENT_ID} { display: flex; padding: 0.5rem 1rem; border-top: 1px solid #444; }
+  #${COMMAND_INPUT_ELEMENT_ID} { flex: 1; background: none; border: none; color: inherit; font: inherit; outline: none; }
+`;
+
+/**
+ * Exports a game as a single HTML page that plays it in any browser. The
+ * page embeds the game as a bundle together with the game runtime, which the
+ * built CLI ships prebuilt. Run from sources, the runtime is built for
+ * browsers on every export, so exporting has to run under Bun.
+ */
+export class HtmlExporter {
+  public async export(
+    gameDefinition: GameDefinition,
+    title: string,
+  ): Promise<string> {
+    const runtime = await HtmlExporter.buildRuntime();
+    const bundle = new BundleSerializer().serialize(gameDefinition);
+
+    return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${HtmlExporter.escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div id="${TRANSCRIPT_ELEMENT_ID}" role="log" aria-live="polite"></div>
+<form id="${COMMAND_FORM_ELEMENT_ID}">
+<span aria-hidden="true">&gt;&nbsp;</span>
+<input id="${COMMAND_INPUT_ELEMENT_ID}" aria-label="Command" autocomplete="off" autocapitalize="off" spellcheck="false" placeholder="Type a command, or help">
+</form>
+<script type="application/json" id="${GAME_DATA_ELEMENT_ID}">${HtmlExporter.escapeJson(bundle)}</script>
+<script>${HtmlExporter.escapeScript(runtime)}</script>
+</body>
+</html>
+`;
+  }
+
+  private static async buildRuntime(): Promise<string> {
+    try {
+      return await fs.readFile(BUILT_RUNTIME, 'utf8');
+    } catch {
+      // not built, as when running from sources
+    }
+
+    if (typeof Bun === 'undefined') {
+      throw new Error('Exporting games to HTML needs to run under Bun');
+    }
+
+    const result = await Bun.build({
+      entrypoints: [RUNTIME_ENTRY],
+      target: 'browser',
+      format: 'iife',
+      minify: true,
+    });
+    const [output] = result.outputs;
+
+    if (!result.success || !output) {
+      throw new AggregateError(result.logs, 'Building the runtime failed');
+    }
+
+    return output.text();
+  }
+
+  /**
+   * Keeps embedded code from closing its script element early.
+   */
+  private static escapeScript(code: string) {
+    return code.replace(/<\/(script)/gi, '<\\/$1');
+  }
+
+  /**
+   * Escapes every "<", which JSON only has inside strings, so no markup can
+   * appear in the embedded game.
+   */
+  private static escapeJson(json: string) {
+    return json.replace(/</g, '\\u003c');
+  }
+
+  private static escapeHtml(text: string) {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -1,21 +1,255 @@
-import { Lexer } from './lexer';
 import fs from 'fs/promises';
 import path from 'path';
-import { Parser } from './parser';
-import { SymbolParser } from './symbols';
+import { Repl } from './repl';
+import { Compiler, type CompileResult } from './compiler';
+import { DiagnosticRenderer } from './diagnostic-renderer';
+import { FileSaveStorage } from './file-save-storage';
+import { ReplayRunner } from './replay';
+import { Transcript } from './transcript';
+import { LanguageServer } from './lsp/server';
+import { Formatter } from './formatter';
+import { BundleSerializer } from './bundle';
+import { BUNDLE_SCHEMA } from './bundle-schema';
+import { BundleError } from './errors/bundle';
+import { HtmlExporter } from './html-exporter';
+import type { SourceMap } from './source-map';
+import type { Diagnostic, GameDefinition } from './types';
+
+const BUNDLE_EXTENSION = '.json';
+
+interface LoadedGame {
+  gameDefinition: GameDefinition;
+  // only games compiled from sources have one
+  sourceMap?: SourceMap;
+}
+
+const USAGE = [
+  'Usage: scribe <game> [--transcript <transcript.txt>]',
+  '       scribe replay <game> <transcript.txt>',
+  '       scribe build <file.scribe> <bundle.json>',
+  '       scribe schema',
+  '       scribe export <game> <page.html>',
+  '       scribe fmt <file.scribe> [--check]',
+  '       scribe lsp',
+  '',
+  'A <game> is either a .scribe file or a bundle.json built from one.',
+].join('\n');
 
 async function main() {
-  const source = await fs.readFile(
-    path.join(__dirname, 'programs', 'main.scribe'),
-    'utf8',
+  const args = process.argv.slice(2);
+
+  if (args[0] === 'lsp') {
+    const server = new LanguageServer(process.stdin, process.stdout);
+    // the protocol has the server exit as soon as the client says so
+    process.exit(await server.start());
+  }
+
+  if (args[0] === 'fmt') {
+    const [, filePath, option] = args;
+
+    if (!filePath) return fail(USAGE);
+    if (option !== undefined && option !== '--check') return fail(USAGE);
+
+    await format(filePath, option === '--check');
+    return;
+  }
+
+  if (args[0] === 'build') {
+    const [, filePath, bundlePath] = args;
+
+    if (!filePath || !bundlePath) return fail(USAGE);
+
+    await build(filePath, bundlePath);
+    return;
+  }
+
+  if (args[0] === 'export') {
+    const [, filePath, pagePath] = args;
+
+    if (!filePath || !pagePath) return fail(USAGE);
+
+    await exportPage(filePath, pagePath);
+    return;
+  }
+
+  if (args[0] === 'schema') {
+    console.log(JSON.stringify(BUNDLE_SCHEMA, null, 2));
+    return;
+  }
+
+  if (args[0] === 'replay') {
+    const [, filePath, transcriptPath] = args;
+
+    if (!filePath || !transcriptPath) return fail(USAGE);
+
+    await replay(filePath, transcriptPath);
+    return;
+  }
+
+  const [filePath, option, transcriptPath] = args;
+
+  if (!filePath) return fail(USAGE);
+  if (option !== undefined && (option !== '--transcript' || !transcriptPath)) {
+    return fail(USAGE);
+  }
+
+  await play(filePath, transcriptPath);
+}
+
+async function play(filePath: string, transcriptPath?: string) {
+  const program = await loadGame(filePath);
+
+  if (!program) return;
+
+  const { gameDefinition, sourceMap } = program;
+
+  const transcript = transcriptPath ? new Transcript() : undefined;
+  const repl = new Repl(gameDefinition, process.stdin, process.stdout, {
+    // saves live next to the game they belong to
+    saveStorage: new FileSaveStorage(`${filePath}.saves`),
+    transcript,
+    sourceMap,
+  });
+  await repl.start();
+
+  if (transcriptPath && transcript) {
+    await fs.writeFile(transcriptPath, transcript.toString());
+  }
+}
+
+async function replay(filePath: string, transcriptPath: string) {
+  const program = await loadGame(filePath);
+
+  if (!program) return;
+
+  const expectedTranscript = await fs.readFile(transcriptPath, 'utf8');
+  const { passed, differences } = await new ReplayRunner(
+    program.gameDefinition,
+    program.sourceMap,
+  ).run(expectedTranscript);
+
+  if (passed) {
+    console.log(`${transcriptPath}: transcript matches`);
+    return;
+  }
+
+  for (const difference of differences) {
+    console.error(difference);
+  }
+
+  fail(`${transcriptPath}: transcript does not match`);
+}
+
+async function build(filePath: string, bundlePath: string) {
+  const program = await compile(filePath);
+
+  if (!program) return;
+
+  await fs.writeFile(
+    bundlePath,
+    new BundleSerializer().serialize(program.gameDefinition),
   );
+  console.log(`${bundlePath}: written`);
+}
+
+async function exportPage(filePath: string, pagePath: string) {
+  const program = await loadGame(filePath);
+
+  if (!program) return;
+
+  // the game is named after its file, e.g. "castle" for castle.scribe
+  const title = path.basename(filePath, path.extname(filePath));
+  const page = await new HtmlExporter().export(program.gameDefinition, title);
 
-  const lexer = new Lexer(source);
+  await fs.writeFile(pagePath, page);
+  console.log(`${pagePath}: written`);
+}
+
+/**
+ * Loads a bundle built by `build`, or compiles the game when given sources.
+ * Returns nothing when the game cannot be run.
+ */
+async function loadGame(filePath: string): Promise<LoadedGame | undefined> {
+  if (!filePath.endsWith(BUNDLE_EXTENSION)) return compile(filePath);
+
+  const data = await fs.readFile(filePath, 'utf8');
+
+  try {
+    return { gameDefinition: new BundleSerializer().deserialize(data) };
+  } catch (error) {
+    if (!(error instanceof BundleError)) throw error;
+
+    fail(`${filePath}: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Rewrites the game at `filePath` and the files it includes in the canonical
+ * layout. With `check`, only lists the files that are not formatted.
+ */
+async function format(filePath: string, check: boolean) {
+  const source = await fs.readFile(filePath, 'utf8');
+  const { files, diagnostics, sourceMap } = new Formatter().format(
+    source,
+    filePath,
+  );
+
+  if (!reportDiagnostics(diagnostics, sourceMap)) return;
+
+  const unformattedFiles = files.filter(
+    (file) => file.source !== file.formatted,
+  );
+
+  for (const { file, formatted } of unformattedFiles) {
+    if (check) {
+      console.error(`${file}: not formatted`);
+      process.exitCode = 1;
+      continue;
+    }
+
+    await fs.writeFile(file, formatted);
+    console.log(`${file}: formatted`);
+  }
+}
+
+/**
+ * Compiles the game at `filePath` and the files it includes, printing their
+ * diagnostics. Returns nothing when the game has errors.
+ */
+async function compile(filePath: string): Promise<CompileResult | undefined> {
+  const source = await fs.readFile(filePath, 'utf8');
+
+  const result = new Compiler().compile(source, filePath);
+
+  if (!reportDiagnostics(result.diagnostics, result.sourceMap)) {
+    return undefined;
+  }
+
+  return result;
+}
+
+/**
+ * Prints `diagnostics`, returning whether they were free of errors.
+ */
+function reportDiagnostics(diagnostics: Diagnostic[], sourceMap: SourceMap) {
+  const renderer = new DiagnosticRenderer(sourceMap);
+
+  for (const diagnostic of diagnostics) {
+    console.error(`${renderer.render(diagnostic)}\n`);
+  }
+
+  if (diagnostics.some(({ severity }) => severity === 'error')) {
+    process.exitCode = 1;
+    return false;
+  }
+
+  return true;
+}
 
-  const tokens = lexer.tokenize();
-  const symbolParser = new SymbolParser(tokens);
-  const parser = new Parser(tokens, symbolParser.parse());
-  console.log(JSON.stringify(parser.parse(), null, 2));
+function fail(message: string) {
+  console.error(message);
+  process.exitCode = 1;
 }
 
 void main();
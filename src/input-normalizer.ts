@@ -0,0 +1,33 @@
+export class InputNormalizer {
+  private static articles = new Set(['a', 'an', 'the']);
+
+  private static defaultSynonyms = new Map<string, string>([
+    ['n', 'north'],
+    ['s', 'south'],
+    ['e', 'east'],
+    ['w', 'west'],
+    ['u', 'up'],
+    ['d', 'down'],
+    ['i', 'inventory'],
+  ]);
+
+  constructor(
+    private readonly synonyms: ReadonlyMap<
+      string,
+      string
+    > = InputNormalizer.defaultSynonyms,
+  ) {}
+
+  /**
+   * Lowercases the input, drops articles, collapses whitespace and maps
+   * each word through the synonyms table.
+   */
+  public normalize(input: string): string {
+    return input
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((word) => word && !InputNormalizer.articles.has(word))
+      .map((word) => this.synonyms.get(word) ?? word)
+      .join(' ');
+  }
+}
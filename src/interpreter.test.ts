@@ -0,0 +1,278 @@
+import { describe, expect, test } from 'bun:test';
+import { Interpreter } from './interpreter';
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { SymbolParser } from './symbols';
+import { RuntimeError, UndefinedScriptError } from './errors/interpreter';
+import type { SaveStorage } from './types';
+
+const GAME = `
+VAR playerLocation = cave
+VAR hp = 10
+
+ITEM "Rusty Sword" ID=sword
+  DESC "A dull sword."
+  LOCATION=cave
+  TAKEABLE=true
+
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+  EXIT north=tunnel
+
+ROOM "Tunnel" ID=tunnel
+  DESC "A narrow tunnel."
+
+COMMAND "look"
+  EFFECT EXECUTE describeRoom
+
+COMMAND "hurt"
+  EFFECT EXECUTE hurt
+
+SCRIPT describeRoom
+  MESSAGE rooms[playerLocation].name
+  MESSAGE rooms[playerLocation].desc
+
+  IF rooms[playerLocation] HAS ITEMS THEN
+    FOR item IN rooms[playerLocation].items DO
+      MESSAGE item.name
+    ENDFOR
+  ENDIF
+ENDSCRIPT
+
+SCRIPT hurt
+  SET hp = hp - 1
+ENDSCRIPT
+`;
+
+function compile(source: string) {
+  const tokens = new Lexer(source).tokenize();
+
+  return new Parser(tokens, new SymbolParser(tokens).parse()).parse();
+}
+
+/**
+ * Starts `source` with an output sink that keeps every message written.
+ */
+function play(source: string, saveStorage?: SaveStorage) {
+  const messages: string[] = [];
+  const interpreter = new Interpreter(
+    compile(source),
+    { write: (message) => messages.push(message) },
+    saveStorage,
+  );
+
+  return { interpreter, messages };
+}
+
+function createSaveStorage(): SaveStorage {
+  const slots = new Map<string, string>();
+
+  return {
+    read: (slot) => slots.get(slot),
+    write: (slot, data) => void slots.set(slot, data),
+  };
+}
+
+describe('Interpreter', () => {
+  test('starts from the initial values of the game', () => {
+    const { interpreter } = play(GAME);
+    const { variables, itemLocations } = interpreter.getState();
+
+    expect(variables.playerLocation).toBe('cave');
+    expect(variables.hp).toBe(10);
+    expect(itemLocations.sword).toBe('cave');
+  });
+
+  test('runs the script of a command, writing to the output sink', () => {
+    const { interpreter, messages } = play(GAME);
+
+    expect(interpreter.runCommand('look')).toBe(true);
+    expect(messages).toEqual(['Cave', 'A dark cave.', 'Rusty Sword']);
+  });
+
+  test('leaves unknown commands to the caller', () => {
+    const { interpreter, messages } = play(GAME);
+
+    expect(interpreter.runCommand('dance')).toBe(false);
+    expect(messages).toEqual([]);
+  });
+
+  test('refuses to run a script that does not exist', () => {
+    const { interpreter } = play(GAME);
+
+    expect(() => interpreter.runScript('missing')).toThrow(
+      UndefinedScriptError,
+    );
+  });
+});
+
+describe('Interpreter saves', () => {
+  test('restores the state a game was saved in', () => {
+    const { interpreter, messages } = play(GAME, createSaveStorage());
+
+    interpreter.runCommand('save one');
+    interpreter.runCommand('hurt');
+    interpreter.runCommand('restore one');
+
+    expect(interpreter.getState().variables.hp).toBe(10);
+    expect(messages).toEqual([
+      'Game saved to "one".',
+      'Game restored from "one".',
+    ]);
+  });
+
+  test('tells the player about slots that cannot be restored', () => {
+    const { interpreter, messages } = play(GAME, {
+      read: (slot) => {
+        if (slot === 'broken') throw new Error('the disk is gone');
+
+        return slot === 'garbled' ? '{' : undefined;
+      },
+      write: () => undefined,
+    });
+
+    interpreter.runCommand('restore empty');
+    interpreter.runCommand('restore broken');
+    interpreter.runCommand('restore garbled');
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toBe('There is no saved game in "empty".');
+    expect(messages[1]).toBe('Could not restore "broken": the disk is gone');
+    expect(messages[2]).toStartWith('Could not restore "garbled":');
+  });
+
+  test('tells the player when a save cannot be written', () => {
+    const { interpreter, messages } = play(GAME, {
+      read: () => undefined,
+      write: () => {
+        throw new Error('the disk is full');
+      },
+    });
+
+    interpreter.runCommand('save one');
+
+    expect(messages).toEqual(['Could not save to "one": the disk is full']);
+  });
+});
+
+describe('Interpreter undo', () => {
+  test('undoes and redoes turns in order', () => {
+    const { interpreter, messages } = play(GAME);
+    const getHp = () => interpreter.getState().variables.hp;
+
+    interpreter.runCommand('hurt');
+    interpreter.runCommand('hurt');
+    expect(getHp()).toBe(8);
+
+    interpreter.runCommand('undo');
+    expect(getHp()).toBe(9);
+    interpreter.runCommand('undo');
+    expect(getHp()).toBe(10);
+    interpreter.runCommand('redo');
+    expect(getHp()).toBe(9);
+
+    expect(messages).toEqual(['Undone.', 'Undone.', 'Redone.']);
+  });
+
+  test('forgets undone turns once another turn is taken', () => {
+    const { interpreter, messages } = play(GAME);
+
+    interpreter.runCommand('undo');
+    interpreter.runCommand('hurt');
+    interpreter.runCommand('undo');
+    interpreter.runCommand('hurt');
+    interpreter.runCommand('redo');
+
+    expect(interpreter.getState().variables.hp).toBe(9);
+    expect(messages).toEqual([
+      'There is nothing to undo.',
+      'Undone.',
+      'There is nothing to redo.',
+    ]);
+  });
+
+  test('takes no turn for a move that cannot be made', () => {
+    const { interpreter, messages } = play(GAME);
+
+    interpreter.runCommand('go west');
+    interpreter.runCommand('undo');
+    expect(messages).toEqual([
+      "You can't go west from here.",
+      'There is nothing to undo.',
+    ]);
+
+    interpreter.runCommand('go north');
+    expect(interpreter.getState().variables.playerLocation).toBe('tunnel');
+    interpreter.runCommand('undo');
+    expect(interpreter.getState().variables.playerLocation).toBe('cave');
+  });
+});
+
+describe('Interpreter hooks', () => {
+  const HOOKS = `
+VAR playerLocation = cave
+
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+  EXIT north=tunnel
+  ON LEAVE EXECUTE leave
+
+ROOM "Tunnel" ID=tunnel
+  DESC "A narrow tunnel."
+  EXIT south=cave
+  ON ENTER EXECUTE enter
+
+ON TURN EXECUTE turn
+
+SCRIPT leave
+  MESSAGE "leaving"
+ENDSCRIPT
+
+SCRIPT enter
+  MESSAGE "entering"
+ENDSCRIPT
+
+SCRIPT turn
+  MESSAGE "turn over"
+ENDSCRIPT
+`;
+
+  test('fire around the move, then the turn ends', () => {
+    const { interpreter, messages } = play(HOOKS);
+
+    interpreter.runCommand('go north');
+
+    expect(messages).toEqual([
+      'leaving',
+      'Tunnel',
+      'A narrow tunnel.',
+      'entering',
+      'turn over',
+    ]);
+  });
+
+  test('fail the turn when they fire each other endlessly', () => {
+    const { interpreter } = play(`
+VAR playerLocation = cave
+
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+  EXIT north=tunnel
+  ON ENTER EXECUTE toTunnel
+
+ROOM "Tunnel" ID=tunnel
+  DESC "A narrow tunnel."
+  ON ENTER EXECUTE toCave
+
+SCRIPT toTunnel
+  SET playerLocation = tunnel
+ENDSCRIPT
+
+SCRIPT toCave
+  SET playerLocation = cave
+ENDSCRIPT
+`);
+
+    expect(() => interpreter.runCommand('go north')).toThrow(RuntimeError);
+  });
+});
@@ -0,0 +1,1052 @@
+import { strict as assert } from 'assert';
+import { PLAYER_LOCATION_VAR } from './constants/parser';
+import {
+  HOOK_ITEM_PARAMETER,
+  HOOK_ROOM_PARAMETER,
+  INVENTORY_COLLECTION,
+  INVENTORY_LOCATION,
+  ITEMS_COLLECTION,
+  MAX_SCRIPT_DEPTH,
+  NOWHERE_LOCATION,
+  ROOMS_COLLECTION,
+} from './constants/interpreter';
+import {
+  ItemInteractions,
+  type BinaryExpression,
+  type ComparisonCondition,
+  type Condition,
+  type Direction,
+  type ExitDefinition,
+  type Expression,
+  type ForAction,
+  type GameDefinition,
+  type GameState,
+  type IfAction,
+  type ItemAction,
+  type ItemDefinition,
+  type ItemEvent,
+  type ItemId,
+  type MessageAction,
+  type OutputSink,
+  type RoomEvent,
+  type RoomId,
+  type RuntimeValue,
+  type SaveStorage,
+  type ScriptAction,
+  type ScriptBlock,
+  type ScriptId,
+  type SetAction,
+  type VariableType,
+  type VariableValue,
+} from './types';
+import { RuntimeError, UndefinedScriptError } from './errors/interpreter';
+import { CommandMatcher } from './command-matcher';
+import { InputNormalizer } from './input-normalizer';
+import { SaveGameSerializer } from './save-game';
+import { TurnHistory } from './turn-history';
+import { SaveError } from './errors/save';
+
+type Scope = ReadonlyMap<string, RuntimeValue>;
+type Position = Pick<Expression, 'line' | 'col'>;
+
+const GO_COMMAND = 'go';
+const INVENTORY_COMMAND = 'inventory';
+const SAVE_COMMAND = 'save';
+const RESTORE_COMMAND = 'restore';
+const UNDO_COMMAND = 'undo';
+const REDO_COMMAND = 'redo';
+
+// slots end up as file names, so keep them to a safe set of characters
+const SAVE_SLOT_PATTERN = /^[\w-]+$/;
+
+/**
+ * Event hooks fire in this order within a turn:
+ *
+ * 1. The command's EFFECT script or the built-in command runs. While it does,
+ *    - ON TAKE, ON DROP and ON EXAMINE run right after the TAKE, DROP or
+ *      EXAMINE action on their item,
+ *    - whenever the player changes rooms, ON LEAVE of the old room runs
+ *      while the player is still in it, then ON ENTER of the new room runs
+ *      once the player is there (and, for `go`, the room was described).
+ * 2. Every ON TURN hook runs, in definition order, once the command is done.
+ *
+ * Hooks may fire each other, e.g. ON ENTER scripts moving the player back and
+ * forth, so scripts may only run `MAX_SCRIPT_DEPTH` levels within each other
+ * before the turn fails with a RuntimeError.
+ *
+ * Room hooks bind the room to a `room` parameter, item hooks the item to an
+ * `item` parameter.
+ */
+export class Interpreter {
+  private state: GameState;
+  private normalizer: InputNormalizer;
+  private commandMatcher: CommandMatcher;
+  private serializer: SaveGameSerializer;
+  private history = new TurnHistory();
+  // how many scripts are running within each other
+  private scriptDepth = 0;
+
+  constructor(
+    private readonly gameDefinition: GameDefinition,
+    private readonly output: OutputSink,
+    private readonly saveStorage?: SaveStorage,
+  ) {
+    this.state = Interpreter.createInitialState(gameDefinition);
+    this.serializer = new SaveGameSerializer(gameDefinition);
+    this.normalizer = new InputNormalizer();
+    this.commandMatcher = new CommandMatcher(
+      gameDefinition.commands,
+      this.normalizer,
+    );
+  }
+
+  public getState(): Readonly<GameState> {
+    return this.state;
+  }
+
+  /**
+   * Lists the verbs a player can type, game commands first.
+   */
+  public getAvailableCommands(): string[] {
+    return [
+      ...this.gameDefinition.commands.map(({ verb, aliases }) =>
+        aliases.length
+          ? `${verb} (${aliases.map((alias) => alias.verb).join(', ')})`
+          : verb,
+      ),
+      `${GO_COMMAND} <direction>`,
+      INVENTORY_COMMAND,
+      `${SAVE_COMMAND} <slot>`,
+      `${RESTORE_COMMAND} <slot>`,
+      UNDO_COMMAND,
+      REDO_COMMAND,
+    ];
+  }
+
+  /**
+   * Runs the game command matching `input`, falling back to built-in
+   * commands. Returns false when neither knows the input.
+   */
+  public runCommand(input: string): boolean {
+    const match = this.commandMatcher.match(input);
+
+    if (!match) return this.runBuiltinCommand(input);
+
+    const parameters = new Map<string, RuntimeValue>();
+
+    for (const [name, noun] of match.args) {
+      const itemId = this.resolveNoun(noun);
+
+      // the player has already been told why the noun did not resolve
+      if (!itemId) return true;
+
+      parameters.set(name, itemId);
+    }
+
+    const { scriptId, line, col } = match.command.effect;
+    this.runTurn(() => this.runScript(scriptId, line, col, parameters));
+
+    return true;
+  }
+
+  public runScript(
+    scriptId: ScriptId,
+    line = 0,
+    col = 0,
+    parameters: Scope = new Map(),
+  ) {
+    const script = this.gameDefinition.scripts[scriptId];
+
+    if (!script) {
+      throw new UndefinedScriptError(scriptId, line, col);
+    }
+
+    if (this.scriptDepth >= MAX_SCRIPT_DEPTH) {
+      throw new RuntimeError(
+        `Script "${scriptId}" would run more than ${MAX_SCRIPT_DEPTH} scripts deep, probably as hooks fire each other endlessly`,
+        line,
+        col,
+      );
+    }
+
+    this.scriptDepth += 1;
+
+    try {
+      this.executeBlock(script.body, parameters);
+    } finally {
+      this.scriptDepth -= 1;
+    }
+  }
+
+  public move(exit: ExitDefinition) {
+    const nextRoom = this.gameDefinition.rooms[exit.roomId];
+    assert(nextRoom, `Exit "${exit.direction}" leads to unknown room`);
+
+    this.changeRoom(nextRoom.id, () => {
+      this.output.write(nextRoom.name);
+      if (nextRoom.desc) {
+        this.output.write(nextRoom.desc);
+      }
+    });
+  }
+
+  public describeInventory() {
+    if (!this.state.inventory.length) {
+      this.output.write('You are not carrying anything.');
+      return;
+    }
+
+    this.output.write('You are carrying:');
+    for (const itemId of this.state.inventory) {
+      const item = this.gameDefinition.items[itemId];
+      assert(item, `Unknown item "${itemId}" in inventory`);
+
+      this.output.write(` - ${item.name}`);
+    }
+  }
+
+  public save(slot: string) {
+    if (!this.isUsableSlot(slot)) return;
+
+    assert(this.saveStorage, 'Save storage must be available');
+
+    try {
+      this.saveStorage.write(slot, this.serializer.serialize(this.state));
+    } catch (error) {
+      if (!(error instanceof Error)) throw error;
+
+      this.output.write(`Could not save to "${slot}": ${error.message}`);
+      return;
+    }
+
+    this.output.write(`Game saved to "${slot}".`);
+  }
+
+  public restore(slot: string) {
+    if (!this.isUsableSlot(slot)) return;
+
+    assert(this.saveStorage, 'Save storage must be available');
+
+    let data: string | undefined;
+
+    try {
+      data = this.saveStorage.read(slot);
+    } catch (error) {
+      if (!(error instanceof Error)) throw error;
+
+      this.output.write(`Could not restore "${slot}": ${error.message}`);
+      return;
+    }
+
+    if (data === undefined) {
+      this.output.write(`There is no saved game in "${slot}".`);
+      return;
+    }
+
+    try {
+      this.state = this.serializer.deserialize(data);
+      // the recorded turns led up to the state that was just replaced
+      this.history.clear();
+    } catch (error) {
+      if (!(error instanceof SaveError)) throw error;
+
+      this.output.write(`Could not restore "${slot}": ${error.message}.`);
+      return;
+    }
+
+    this.output.write(`Game restored from "${slot}".`);
+  }
+
+  public undo() {
+    if (!this.history.undo(this.state)) {
+      this.output.write('There is nothing to undo.');
+      return;
+    }
+
+    this.output.write('Undone.');
+  }
+
+  public redo() {
+    if (!this.history.redo(this.state)) {
+      this.output.write('There is nothing to redo.');
+      return;
+    }
+
+    this.output.write('Redone.');
+  }
+
+  /**
+   * Runs `turn` and the ON TURN hooks, recording how they changed the state
+   * so the turn can be undone. Turns that fail halfway are recorded too, as
+   * their changes remain.
+   */
+  private runTurn(turn: () => void) {
+    const before = Interpreter.copyState(this.state);
+
+    try {
+      turn();
+
+      for (const { scriptId, line, col } of this.gameDefinition.turnHooks) {
+        this.runScript(scriptId, line, col);
+      }
+    } finally {
+      this.history.record(before, this.state);
+    }
+  }
+
+  /**
+   * Tells the player why `slot` cannot be used, if it cannot.
+   */
+  private isUsableSlot(slot: string) {
+    if (!this.saveStorage) {
+      this.output.write('Saving is not available in this game.');
+      return false;
+    }
+
+    if (!slot) {
+      this.output.write('Which slot? For example: save mygame');
+      return false;
+    }
+
+    if (!SAVE_SLOT_PATTERN.test(slot)) {
+      this.output.write(
+        'Slot names may only contain letters, digits, "-" and "_".',
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolves what the player typed to a visible item, i.e. one in the
+   * current room or in the inventory, by id or full name, falling back to
+   * words of its name.
+   */
+  private resolveNoun(noun: string): ItemId | undefined {
+    const normalizedNoun = noun.toLowerCase();
+    const nounWords = normalizedNoun.split(/\s+/);
+    const visibleItems = [
+      ...this.getItemsInRoom(this.getPlayerLocation()),
+      ...this.state.inventory,
+    ];
+
+    const items = visibleItems.map((itemId) => {
+      const item = this.gameDefinition.items[itemId];
+      assert(item, `Unknown item "${itemId}"`);
+
+      return item;
+    });
+
+    const exactMatches = items.filter(
+      (item) =>
+        item.id.toLowerCase() === normalizedNoun ||
+        item.name.toLowerCase() === normalizedNoun,
+    );
+    const partialMatches = items.filter((item) => {
+      const nameWords = item.name.toLowerCase().split(/\s+/);
+      return nounWords.every((word) => nameWords.includes(word));
+    });
+    const candidates = exactMatches.length ? exactMatches : partialMatches;
+
+    const [candidate] = candidates;
+
+    if (!candidate) {
+      this.output.write(`You don't see any "${noun}" here.`);
+      return undefined;
+    }
+
+    if (candidates.length > 1) {
+      const names = candidates.map((item) => item.name);
+      const last = names.pop();
+      this.output.write(`Which do you mean, ${names.join(', ')} or ${last}?`);
+      return undefined;
+    }
+
+    return candidate.id;
+  }
+
+  private runBuiltinCommand(input: string): boolean {
+    const [verb, ...args] = this.normalizer.normalize(input).split(/\s+/);
+    // slots are named by the player, so words like "a" must survive
+    const slot = input.trim().split(/\s+/).slice(1).join(' ').toLowerCase();
+
+    switch (verb) {
+      case GO_COMMAND: {
+        const exit = this.findExit(args.join(' '));
+
+        // like an unresolved noun, a move that cannot be made takes no turn
+        if (exit) this.runTurn(() => this.move(exit));
+        return true;
+      }
+      case INVENTORY_COMMAND: {
+        if (args.length) return false;
+
+        this.describeInventory();
+        return true;
+      }
+      case SAVE_COMMAND: {
+        this.save(slot);
+        return true;
+      }
+      case RESTORE_COMMAND: {
+        this.restore(slot);
+        return true;
+      }
+      case UNDO_COMMAND: {
+        if (args.length) return false;
+
+        this.undo();
+        return true;
+      }
+      case REDO_COMMAND: {
+        if (args.length) return false;
+
+        this.redo();
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * The exit of the player's room in `direction`, telling the player why
+   * there is none.
+   */
+  private findExit(direction: Direction): ExitDefinition | undefined {
+    if (!direction) {
+      this.output.write('Go where?');
+      return undefined;
+    }
+
+    const currentRoom = this.gameDefinition.rooms[this.getPlayerLocation()];
+    const exit = currentRoom?.exits[direction];
+
+    if (!exit) {
+      this.output.write(`You can't go ${direction} from here.`);
+    }
+
+    return exit;
+  }
+
+  private getPlayerLocation(): RoomId {
+    const location = this.state.variables[PLAYER_LOCATION_VAR];
+    assert(typeof location === 'string', 'Player location must be a room id');
+
+    return location;
+  }
+
+  /**
+   * Moves the player to `roomId`, firing the room hooks around `describe`
+   * when the player actually changes rooms.
+   */
+  private changeRoom(roomId: RoomId, describe?: () => void) {
+    const previousRoomId = this.getPlayerLocation();
+    const isNewRoom = previousRoomId !== roomId;
+
+    if (isNewRoom) this.runRoomHook(previousRoomId, 'leave');
+
+    this.setPlayerLocation(roomId);
+    describe?.();
+
+    if (isNewRoom) this.runRoomHook(roomId, 'enter');
+  }
+
+  private runRoomHook(roomId: RoomId, event: RoomEvent) {
+    const hook = this.gameDefinition.rooms[roomId]?.events[event];
+
+    if (!hook) return;
+
+    this.runScript(
+      hook.scriptId,
+      hook.line,
+      hook.col,
+      new Map([[HOOK_ROOM_PARAMETER, roomId]]),
+    );
+  }
+
+  private runItemHook(item: ItemDefinition, event: ItemEvent) {
+    const hook = item.events[event];
+
+    if (!hook) return;
+
+    this.runScript(
+      hook.scriptId,
+      hook.line,
+      hook.col,
+      new Map([[HOOK_ITEM_PARAMETER, item.id]]),
+    );
+  }
+
+  private setPlayerLocation(roomId: RoomId) {
+    this.state.variables[PLAYER_LOCATION_VAR] = roomId;
+
+    if (!this.state.visitedRooms.includes(roomId)) {
+      this.state.visitedRooms.push(roomId);
+    }
+  }
+
+  private executeBlock(block: ScriptBlock, scope: Scope) {
+    for (const action of block) {
+      this.executeAction(action, scope);
+    }
+  }
+
+  private executeAction(action: ScriptAction, scope: Scope) {
+    switch (action.kind) {
+      case 'message': {
+        this.executeMessageAction(action, scope);
+        break;
+      }
+      case 'if': {
+        this.executeIfAction(action, scope);
+        break;
+      }
+      case 'for': {
+        this.executeForAction(action, scope);
+        break;
+      }
+      case 'set': {
+        this.executeSetAction(action, scope);
+        break;
+      }
+      case 'take':
+      case 'drop':
+      case 'move':
+      case 'destroy':
+      case 'examine': {
+        this.executeItemAction(action, scope);
+        break;
+      }
+    }
+  }
+
+  private executeMessageAction(action: MessageAction, scope: Scope) {
+    if (action.valueExpression) {
+      const value = this.evaluateExpression(action.valueExpression, scope);
+      this.output.write(Interpreter.stringify(value));
+      return;
+    }
+
+    assert(
+      action.messageTemplate !== undefined,
+      'Message action requires a template or an expression',
+    );
+
+    const message = action.messageTemplate
+      .map((segment) =>
+        segment.kind === 'literal'
+          ? segment.value
+          : Interpreter.stringify(
+              this.evaluateExpression(segment.expression, scope),
+            ),
+      )
+      .join('');
+
+    this.output.write(message);
+  }
+
+  private executeIfAction(action: IfAction, scope: Scope) {
+    if (this.evaluateCondition(action.condition, scope)) {
+      this.executeBlock(action.thenBranch, scope);
+      return;
+    }
+
+    for (const branch of action.elseIfBranches) {
+      if (this.evaluateCondition(branch.condition, scope)) {
+        this.executeBlock(branch.body, scope);
+        return;
+      }
+    }
+
+    if (action.elseBranch) {
+      this.executeBlock(action.elseBranch, scope);
+    }
+  }
+
+  private executeForAction(action: ForAction, scope: Scope) {
+    const collection = this.evaluateExpression(action.collection, scope);
+
+    if (!Array.isArray(collection)) {
+      throw new RuntimeError(
+        `FOR loop expects a collection but found ${Interpreter.stringify(collection)}`,
+        action.line,
+        action.col,
+      );
+    }
+
+    for (const element of collection) {
+      const loopScope = new Map(scope);
+      loopScope.set(action.variableName, element);
+
+      this.executeBlock(action.body, loopScope);
+    }
+  }
+
+  private executeSetAction(action: SetAction, scope: Scope) {
+    const { variableName } = action.target;
+    const definition = this.gameDefinition.variables[variableName];
+
+    if (!definition) {
+      throw new RuntimeError(
+        `Unknown variable "${variableName}"`,
+        action.target.line,
+        action.target.col,
+      );
+    }
+
+    const value = this.evaluateExpression(action.value, scope);
+
+    if (!this.isAssignable(definition.type, value)) {
+      throw new RuntimeError(
+        `Cannot assign ${Interpreter.stringify(value)} to variable "${variableName}" of type ${definition.type}`,
+        action.line,
+        action.col,
+      );
+    }
+
+    if (
+      variableName === PLAYER_LOCATION_VAR &&
+      !this.gameDefinition.rooms[String(value)]
+    ) {
+      throw new RuntimeError(
+        `Variable "${variableName}" expects a ROOM ID but found ${Interpreter.stringify(value)}`,
+        action.line,
+        action.col,
+      );
+    }
+
+    if (variableName === PLAYER_LOCATION_VAR) {
+      this.changeRoom(String(value));
+      return;
+    }
+
+    this.state.variables[variableName] = value;
+  }
+
+  private executeItemAction(action: ItemAction, scope: Scope) {
+    const item = this.resolveItem(action.item, scope);
+    const location = this.state.itemLocations[item.id];
+
+    switch (action.kind) {
+      case 'take': {
+        if (!item.interactions.includes(ItemInteractions.Takeable)) {
+          throw new RuntimeError(
+            `Item "${item.id}" cannot be taken`,
+            action.line,
+            action.col,
+          );
+        }
+
+        if (location === INVENTORY_LOCATION) {
+          throw new RuntimeError(
+            `Item "${item.id}" is already in the inventory`,
+            action.line,
+            action.col,
+          );
+        }
+
+        this.setItemLocation(item.id, INVENTORY_LOCATION);
+        this.runItemHook(item, 'take');
+        break;
+      }
+      case 'drop': {
+        if (location !== INVENTORY_LOCATION) {
+          throw new RuntimeError(
+            `Item "${item.id}" cannot be dropped because it is not in the inventory`,
+            action.line,
+            action.col,
+          );
+        }
+
+        this.setItemLocation(item.id, this.getPlayerLocation());
+        this.runItemHook(item, 'drop');
+        break;
+      }
+      case 'move': {
+        const destination = this.evaluateExpression(action.destination, scope);
+
+        if (
+          typeof destination !== 'string' ||
+          !this.gameDefinition.rooms[destination]
+        ) {
+          throw new RuntimeError(
+            `Cannot move item "${item.id}" to ${Interpreter.stringify(destination)}, expected a room`,
+            action.destination.line,
+            action.destination.col,
+          );
+        }
+
+        this.setItemLocation(item.id, destination);
+        break;
+      }
+      case 'destroy': {
+        this.setItemLocation(item.id, NOWHERE_LOCATION);
+        break;
+      }
+      case 'examine': {
+        this.output.write(item.desc);
+        this.runItemHook(item, 'examine');
+        break;
+      }
+    }
+  }
+
+  /**
+   * Single place that relocates items so the inventory list stays in sync
+   * with `itemLocations`.
+   */
+  private setItemLocation(itemId: ItemId, location: RoomId) {
+    const { inventory, itemLocations } = this.state;
+
+    if (itemLocations[itemId] === INVENTORY_LOCATION) {
+      inventory.splice(inventory.indexOf(itemId), 1);
+    }
+
+    if (location === INVENTORY_LOCATION) {
+      inventory.push(itemId);
+    }
+
+    itemLocations[itemId] = location;
+  }
+
+  private resolveItem(expression: Expression, scope: Scope): ItemDefinition {
+    const value = this.evaluateExpression(expression, scope);
+    const item =
+      typeof value === 'string' ? this.gameDefinition.items[value] : undefined;
+
+    if (!item) {
+      throw new RuntimeError(
+        `Expected an item but found ${Interpreter.stringify(value)}`,
+        expression.line,
+        expression.col,
+      );
+    }
+
+    return item;
+  }
+
+  private isAssignable(
+    type: VariableType,
+    value: RuntimeValue,
+  ): value is VariableValue {
+    switch (type) {
+      case 'NUMBER':
+        return typeof value === 'number';
+      case 'STRING':
+        return typeof value === 'string';
+      case 'BOOL':
+        return typeof value === 'boolean';
+      case 'ID':
+        return (
+          typeof value === 'string' &&
+          (!!this.gameDefinition.rooms[value] ||
+            !!this.gameDefinition.items[value])
+        );
+    }
+  }
+
+  private evaluateCondition(condition: Condition, scope: Scope): boolean {
+    switch (condition.kind) {
+      case 'comparison': {
+        const left = this.evaluateExpression(condition.left, scope);
+        const right = this.evaluateExpression(condition.right, scope);
+
+        return Interpreter.compare(condition, left, right);
+      }
+      case 'logical': {
+        const left = this.evaluateCondition(condition.left, scope);
+
+        return condition.operator === 'AND'
+          ? left && this.evaluateCondition(condition.right, scope)
+          : left || this.evaluateCondition(condition.right, scope);
+      }
+      case 'not': {
+        return !this.evaluateCondition(condition.operand, scope);
+      }
+      case 'collectionCheck': {
+        const target = this.evaluateExpression(condition.target, scope);
+
+        if (Array.isArray(target)) return target.length > 0;
+
+        if (typeof target === 'string' && this.gameDefinition.rooms[target]) {
+          return this.getItemsInRoom(target).length > 0;
+        }
+
+        throw new RuntimeError(
+          `"HAS ITEMS" expects a room or a collection but found ${Interpreter.stringify(target)}`,
+          condition.line,
+          condition.col,
+        );
+      }
+    }
+  }
+
+  private evaluateExpression(
+    expression: Expression,
+    scope: Scope,
+  ): RuntimeValue {
+    switch (expression.kind) {
+      case 'variableAccess': {
+        return this.resolveIdentifier(
+          expression.variableName,
+          scope,
+          expression,
+        );
+      }
+      case 'indexedAccess': {
+        const object = this.evaluateExpression(expression.object, scope);
+        const index = this.evaluateExpression(expression.index, scope);
+
+        if (!Array.isArray(object)) {
+          throw new RuntimeError(
+            `Cannot index into ${Interpreter.stringify(object)}`,
+            expression.line,
+            expression.col,
+          );
+        }
+
+        const element =
+          typeof index === 'number'
+            ? object[index]
+            : object.find((value) => value === index);
+
+        if (element === undefined) {
+          throw new RuntimeError(
+            `Index ${Interpreter.stringify(index)} not found in collection`,
+            expression.line,
+            expression.col,
+          );
+        }
+
+        return element;
+      }
+      case 'propertyAccess': {
+        const object = this.evaluateExpression(expression.object, scope);
+
+        return this.resolveProperty(
+          object,
+          expression.propertyName,
+          expression,
+        );
+      }
+      case 'numberLiteral':
+      case 'stringLiteral':
+      case 'booleanLiteral': {
+        return expression.value;
+      }
+      case 'binary': {
+        const left = this.evaluateExpression(expression.left, scope);
+        const right = this.evaluateExpression(expression.right, scope);
+
+        return Interpreter.evaluateArithmetic(expression, left, right);
+      }
+    }
+  }
+
+  /**
+   * Identifiers resolve, in order, to loop variables, game variables,
+   * the built-in `rooms`/`items`/`inventory` collections and finally
+   * entity ids.
+   */
+  private resolveIdentifier(
+    name: string,
+    scope: Scope,
+    position: Position,
+  ): RuntimeValue {
+    const scoped = scope.get(name);
+    if (scoped !== undefined) return scoped;
+
+    const variable = this.state.variables[name];
+    if (variable !== undefined) return variable;
+
+    if (name === ROOMS_COLLECTION) {
+      return Object.keys(this.gameDefinition.rooms);
+    }
+
+    if (name === ITEMS_COLLECTION) {
+      return Object.keys(this.gameDefinition.items);
+    }
+
+    if (name === INVENTORY_COLLECTION) {
+      return [...this.state.inventory];
+    }
+
+    if (this.gameDefinition.rooms[name] || this.gameDefinition.items[name]) {
+      return name;
+    }
+
+    throw new RuntimeError(
+      `Unknown identifier "${name}"`,
+      position.line,
+      position.col,
+    );
+  }
+
+  private resolveProperty(
+    object: RuntimeValue,
+    propertyName: string,
+    position: Position,
+  ): RuntimeValue {
+    if (typeof object === 'string') {
+      const room = this.gameDefinition.rooms[object];
+      if (room) {
+        switch (propertyName) {
+          case 'id':
+            return room.id;
+          case 'name':
+            return room.name;
+          case 'desc':
+            return room.desc;
+          case 'items':
+            return this.getItemsInRoom(room.id);
+          case 'exits':
+            return Object.keys(room.exits);
+        }
+      }
+
+      const item = this.gameDefinition.items[object];
+      if (item) {
+        switch (propertyName) {
+          case 'id':
+            return item.id;
+          case 'name':
+            return item.name;
+          case 'desc':
+            return item.desc;
+          case 'location':
+            return this.state.itemLocations[item.id] ?? '';
+          case 'takeable':
+            return item.interactions.includes(ItemInteractions.Takeable);
+        }
+      }
+    }
+
+    throw new RuntimeError(
+      `Property "${propertyName}" does not exist on ${Interpreter.stringify(object)}`,
+      position.line,
+      position.col,
+    );
+  }
+
+  private getItemsInRoom(roomId: RoomId): ItemId[] {
+    return Object.keys(this.gameDefinition.items).filter(
+      (itemId) => this.state.itemLocations[itemId] === roomId,
+    );
+  }
+
+  private static createInitialState(gameDefinition: GameDefinition): GameState {
+    const variables: GameState['variables'] = {};
+    const itemLocations: GameState['itemLocations'] = {};
+
+    for (const [name, definition] of Object.entries(gameDefinition.variables)) {
+      variables[name] = definition.initialValue;
+    }
+
+    variables[PLAYER_LOCATION_VAR] = gameDefinition.playerStartLocation;
+
+    for (const [itemId, item] of Object.entries(gameDefinition.items)) {
+      itemLocations[itemId] = item.initialLocation;
+    }
+
+    return {
+      variables,
+      itemLocations,
+      inventory: [],
+      visitedRooms: [gameDefinition.playerStartLocation],
+      rngSeed: Math.floor(Math.random() * 2 ** 32),
+    };
+  }
+
+  /**
+   * Copies `state` by hand rather than with `structuredClone`, which some
+   * DOM shims the exported page is tested in do not provide.
+   */
+  private static copyState(state: GameState): GameState {
+    return {
+      ...state,
+      variables: { ...state.variables },
+      itemLocations: { ...state.itemLocations },
+      inventory: [...state.inventory],
+      visitedRooms: [...state.visitedRooms],
+    };
+  }
+
+  private static compare(
+    condition: ComparisonCondition,
+    left: RuntimeValue,
+    right: RuntimeValue,
+  ): boolean {
+    const { operator, line, col } = condition;
+
+    if (operator === '==') return left === right;
+    if (operator === '!=') return left !== right;
+
+    if (typeof left !== 'number' || typeof right !== 'number') {
+      throw new RuntimeError(
+        `Operator "${operator}" expects numbers but found ${Interpreter.stringify(left)} and ${Interpreter.stringify(right)}`,
+        line,
+        col,
+      );
+    }
+
+    switch (operator) {
+      case '<':
+        return left < right;
+      case '<=':
+        return left <= right;
+      case '>':
+        return left > right;
+      case '>=':
+        return left >= right;
+    }
+  }
+
+  private static evaluateArithmetic(
+    expression: BinaryExpression,
+    left: RuntimeValue,
+    right: RuntimeValue,
+  ): RuntimeValue {
+    const { operator, line, col } = expression;
+
+    if (
+      operator === '+' &&
+      (typeof left === 'string' || typeof right === 'string')
+    ) {
+      return Interpreter.stringify(left) + Interpreter.stringify(right);
+    }
+
+    if (typeof left !== 'number' || typeof right !== 'number') {
+      throw new RuntimeError(
+        `Operator "${operator}" expects numbers but found ${Interpreter.stringify(left)} and ${Interpreter.stringify(right)}`,
+        line,
+        col,
+      );
+    }
+
+    switch (operator) {
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      case '/': {
+        if (right === 0) {
+          throw new RuntimeError('Division by zero', line, col);
+        }
+
+        return left / right;
+      }
+    }
+  }
+
+  private static stringify(value: RuntimeValue): string {
+    if (Array.isArray(value)) {
+      return value.map((element) => Interpreter.stringify(element)).join(', ');
+    }
+
+    return String(value);
+  }
+}
@@ -1,13 +1,14 @@
 import { LexerError } from './errors/lexer';
-import { TokenType, type Token } from './types';
+import { reportOrThrow, type DiagnosticCollector } from './diagnostics';
+import { TokenType, type Comment, type Token } from './types';
 import { strict as assert } from 'assert';
+import { TRIPLE_QUOTE } from './constants/lexer';
 
 export class Lexer {
   private char: string;
   private cursor = 0;
-  private line = 1;
-  private col = 1;
   private tokens: Token[] = [];
+  private comments: Comment[] = [];
 
   private static tokenTypeMap = new Map<string, TokenType>([
     ['VAR', TokenType.VAR],
@@ -32,17 +33,84 @@ export class Lexer {
     ['ENDIF', TokenType.ENDIF],
     ['ENDFOR', TokenType.ENDFOR],
     ['ENDSCRIPT', TokenType.ENDSCRIPT],
+    ['EXIT', TokenType.EXIT],
+    ['SET', TokenType.SET],
+    ['AND', TokenType.AND],
+    ['OR', TokenType.OR],
+    ['NOT', TokenType.NOT],
+    ['ELSE', TokenType.ELSE],
+    ['ELSEIF', TokenType.ELSEIF],
+    ['TAKE', TokenType.TAKE],
+    ['DROP', TokenType.DROP],
+    ['MOVE', TokenType.MOVE],
+    ['TO', TokenType.TO],
+    ['DESTROY', TokenType.DESTROY],
+    ['ALIAS', TokenType.ALIAS],
+    ['INCLUDE', TokenType.INCLUDE],
+    ['ON', TokenType.ON],
+    ['ENTER', TokenType.ENTER],
+    ['LEAVE', TokenType.LEAVE],
+    ['TURN', TokenType.TURN],
+    ['EXAMINE', TokenType.EXAMINE],
   ]);
 
-  constructor(private readonly source: string) {
+  // what follows a backslash in a string, and the character it stands for
+  private static escapeSequences = new Map<string, string>([
+    ['n', '\n'],
+    ['"', '"'],
+    ["'", "'"],
+    ['\\', '\\'],
+    ['{', '{'],
+  ]);
+
+  /**
+   * The character an escape sequence stands for, given what follows the
+   * backslash, or undefined when the sequence is invalid.
+   */
+  public static decodeEscape(ch: string): string | undefined {
+    return Lexer.escapeSequences.get(ch);
+  }
+
+  /**
+   * Splits the source text of a string token into the text between its
+   * quotes, still escaped, and the offset that text starts at.
+   */
+  public static getStringContent(raw: string) {
+    const delimiter = raw.startsWith(TRIPLE_QUOTE)
+      ? TRIPLE_QUOTE
+      : raw.charAt(0);
+    const offset = delimiter.length;
+    const isTerminated = raw.length >= offset * 2 && raw.endsWith(delimiter);
+    const end = isTerminated ? raw.length - offset : raw.length;
+
+    return { text: raw.slice(offset, end), offset };
+  }
+
+  /**
+   * `line` and `col` set the position of the first character, which lets
+   * sources embedded in other tokens report their real location.
+   */
+  constructor(
+    private readonly source: string,
+    private line = 1,
+    private col = 1,
+    private readonly diagnostics?: DiagnosticCollector,
+  ) {
     this.char = source[0] ?? '';
   }
 
+  public static getKeywords(): string[] {
+    return [...Lexer.tokenTypeMap.keys()];
+  }
+
   public tokenize(): Token[] {
     if (!this.source) return [];
 
     while (!this.eof()) {
       this.skipWhitespace();
+
+      if (this.eof()) break;
+
       this.scan();
     }
 
@@ -52,14 +120,21 @@ export class Lexer {
     return this.tokens;
   }
 
+  /**
+   * The comments met by `tokenize`, which leaves them out of the tokens.
+   */
+  public getComments(): Comment[] {
+    return this.comments;
+  }
+
   private scan() {
     const col = this.col;
     const ch = this.char;
 
     switch (ch) {
       case '\n': {
-        this.line += 1;
         this.addToken(TokenType.EOL, 'NEWLINE', col);
+        this.line += 1;
         break;
       }
       case '=': {
@@ -77,10 +152,66 @@ export class Lexer {
         this.addToken(type, value, col);
         break;
       }
+      case '!': {
+        if (this.peek() !== '=') {
+          reportOrThrow(
+            this.diagnostics,
+            new LexerError(
+              'Expected "=" after "!", use NOT for negation',
+              this.line,
+              col,
+            ),
+          );
+          break;
+        }
+
+        this.consume();
+        this.addToken(TokenType.NEQ, '!=', col);
+        break;
+      }
+      case '<':
+      case '>': {
+        const isLess = ch === '<';
+        let type = isLess ? TokenType.LT : TokenType.GT;
+        let value = ch;
+
+        if (this.peek() === '=') {
+          type = isLess ? TokenType.LTE : TokenType.GTE;
+          value += '=';
+          this.consume();
+        }
+
+        this.addToken(type, value, col);
+        break;
+      }
+      case '(': {
+        this.addToken(TokenType.LPAREN, ch, col);
+        break;
+      }
+      case ')': {
+        this.addToken(TokenType.RPAREN, ch, col);
+        break;
+      }
       case '.': {
         this.addToken(TokenType.DOT, ch, col);
         break;
       }
+      case '+': {
+        this.addToken(TokenType.PLUS, ch, col);
+        break;
+      }
+      case '-': {
+        this.addToken(TokenType.MINUS, ch, col);
+        break;
+      }
+      case '*': {
+        this.addToken(TokenType.STAR, ch, col);
+        break;
+      }
+      case '/': {
+        this.addToken(TokenType.SLASH, ch, col);
+        break;
+      }
       case '[': {
         this.addToken(TokenType.LBRACKET, ch, col);
         break;
@@ -91,18 +222,34 @@ export class Lexer {
       }
       case '"':
       case "'": {
-        const value = this.scanString();
-        this.addToken(TokenType.STRING, value, col);
+        this.scanString();
         return;
       }
       case '#': {
-        this.skipComment();
+        this.scanComment();
         return;
       }
       default: {
         if (Lexer.isKeyword(ch)) {
           const keyword = this.scanKeyword();
-          this.addToken(Lexer.getTokenTypeOfKeyword(keyword), keyword, col);
+          const type = Lexer.tokenTypeMap.get(keyword);
+
+          if (type === undefined) {
+            reportOrThrow(
+              this.diagnostics,
+              new LexerError(
+                `Invalid token: ${keyword}`,
+                this.line,
+                col,
+                keyword.length,
+              ),
+            );
+            // keep the word as an identifier so parsing can carry on
+            this.addToken(TokenType.IDENT, keyword, col);
+            return;
+          }
+
+          this.addToken(type, keyword, col);
           return;
         } else if (Lexer.isIdent(ch)) {
           const value = this.scanIdentifierOrBooleanLiteral();
@@ -120,9 +267,11 @@ export class Lexer {
           return;
         }
 
-        throw new LexerError(
-          `${this.line}:${this.col}: Invalid character ${this.char}`,
+        reportOrThrow(
+          this.diagnostics,
+          new LexerError(`Invalid character ${this.char}`, this.line, col),
         );
+        break;
       }
     }
 
@@ -138,12 +287,18 @@ export class Lexer {
     });
   }
 
-  private skipComment() {
+  private scanComment() {
     assert(this.char === '#', 'Called on a non-comment');
 
-    while (!Lexer.isEndOfLine(this.char)) {
+    const col = this.col;
+    let text = '';
+
+    while (!this.eof() && !Lexer.isEndOfLine(this.char)) {
+      text += this.char;
       this.consume();
     }
+
+    this.comments.push({ text: text.trimEnd(), line: this.line, col });
   }
 
   private scanKeyword() {
@@ -157,29 +312,95 @@ export class Lexer {
     return keyword;
   }
 
+  /**
+   * Scans a string in single, double or triple double quotes, only the last
+   * of which may span several lines. The token's value has the escape
+   * sequences decoded, its `raw` text keeps them as written.
+   */
   private scanString() {
+    const { line, col, cursor: start } = this;
+    const delimiter = this.source.startsWith(TRIPLE_QUOTE, start)
+      ? TRIPLE_QUOTE
+      : this.char;
+    assert(
+      delimiter === "'" || delimiter === '"' || delimiter === TRIPLE_QUOTE,
+    );
+
+    const isMultiline = delimiter === TRIPLE_QUOTE;
     let value = '';
+    let isTerminated = true;
 
-    const quote = this.char;
-    if (quote !== "'" && quote !== '"') {
-      throw new LexerError(`${this.line}:${this.col}: Invalid start of string`);
-    }
-    this.consume(); // skip opening quote
+    this.consumeMany(delimiter.length);
+
+    while (!this.source.startsWith(delimiter, this.cursor)) {
+      if (this.eof() || (!isMultiline && Lexer.isEndOfLine(this.char))) {
+        isTerminated = false;
+        break;
+      }
+
+      if (this.char === '\\') {
+        value += this.scanEscapeSequence();
+        continue;
+      }
+
+      if (Lexer.isEndOfLine(this.char)) {
+        this.line += 1;
+      }
 
-    while (this.char !== "'" && this.char !== '"') {
       value += this.char;
       this.consume();
     }
 
-    if (this.char !== quote) {
-      throw new LexerError(
-        `${this.line}:${this.col}: Unterminated string: ${this.char} Expected: ${quote}`,
+    if (isTerminated) {
+      this.consumeMany(delimiter.length);
+    }
+
+    const raw = this.source.slice(start, this.cursor);
+
+    if (!isTerminated) {
+      reportOrThrow(
+        this.diagnostics,
+        new LexerError(
+          `Unterminated string, expected a closing ${delimiter}`,
+          line,
+          col,
+          raw.split('\n')[0]!.length,
+        ),
       );
     }
 
-    this.consume(); // skip closing quote
+    this.tokens.push({ type: TokenType.STRING, value, line, col, raw });
+  }
 
-    return value;
+  /**
+   * Decodes the escape sequence at the cursor. An invalid one is reported
+   * and kept as written, leaving the character after the backslash to be
+   * scanned as part of the string.
+   */
+  private scanEscapeSequence() {
+    assert(this.char === '\\', 'Called on a non-escape sequence');
+
+    const col = this.col;
+    this.consume(); // skip the backslash
+
+    const decoded = Lexer.escapeSequences.get(this.char);
+
+    if (decoded === undefined) {
+      reportOrThrow(
+        this.diagnostics,
+        new LexerError(
+          `Invalid escape sequence \\${this.char.trim()}`,
+          this.line,
+          col,
+          2,
+        ),
+      );
+      return '\\';
+    }
+
+    this.consume();
+
+    return decoded;
   }
 
   private scanNumber() {
@@ -210,16 +431,15 @@ export class Lexer {
     }
   }
 
+  // the next character, empty at the end of input
   private peek() {
-    assert(
-      this.cursor + 1 < this.source.length,
-      `Peek attempt out of bounds. Cursor: ${this.cursor}, Length: ${this.source.length}`,
-    );
-
-    const nextChar = this.source[this.cursor + 1];
-    assert(typeof nextChar !== 'undefined');
+    return this.source[this.cursor + 1] ?? '';
+  }
 
-    return nextChar;
+  private consumeMany(count: number) {
+    for (let consumed = 0; consumed < count; consumed++) {
+      this.consume();
+    }
   }
 
   private consume() {
@@ -230,15 +450,18 @@ export class Lexer {
 
     this.col = this.char === '\n' ? 1 : this.col + 1;
     this.cursor += 1;
-
-    const char = this.source[this.cursor];
-    assert(typeof char !== 'undefined');
-
-    this.char = char;
+    // empty once the last character is consumed
+    this.char = this.source[this.cursor] ?? '';
   }
 
+  /**
+   * Whether all of the source is scanned but a final newline, which is left
+   * for `tokenize` to end the last line with.
+   */
   private eof() {
-    return this.cursor >= this.source.length - 1;
+    const remaining = this.source.length - this.cursor;
+
+    return remaining <= 0 || (remaining === 1 && Lexer.isEndOfLine(this.char));
   }
 
   private static isDigit(ch: string): boolean {
@@ -260,16 +483,4 @@ export class Lexer {
   private static isEndOfLine(ch: string): boolean {
     return ch === '\n';
   }
-
-  private static getTokenTypeOfKeyword(keyword: string): TokenType {
-    assert(keyword, `Cannot lookup empty keyword: ${keyword}`);
-
-    const tokenType = this.tokenTypeMap.get(keyword);
-
-    if (tokenType === undefined) {
-      throw new LexerError(`Invalid token: ${keyword}`);
-    }
-
-    return tokenType;
-  }
 }
@@ -0,0 +1,122 @@
+import type { Readable, Writable } from 'stream';
+import { ErrorCodes, type Message, type ResponseError } from './protocol';
+
+const HEADER_DELIMITER = '\r\n\r\n';
+const CONTENT_LENGTH_PATTERN = /Content-Length: *(\d+)/i;
+
+/**
+ * JSON-RPC over a pair of streams, framed with `Content-Length` headers as
+ * language clients expect.
+ */
+export class Connection {
+  private buffer = Buffer.alloc(0);
+  private onClose?: () => void;
+
+  constructor(
+    private readonly input: Readable,
+    private readonly output: Writable,
+  ) {}
+
+  /**
+   * Calls `onMessage` for every message received until the input ends or
+   * the connection is closed.
+   */
+  public listen(onMessage: (message: Message) => void): Promise<void> {
+    return new Promise((resolve) => {
+      const onData = (chunk: Buffer) => {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        this.readMessages(onMessage);
+      };
+
+      this.onClose = () => {
+        this.input.off('data', onData);
+        this.input.off('end', this.onClose!);
+        resolve();
+      };
+
+      this.input.on('data', onData);
+      this.input.on('end', this.onClose);
+    });
+  }
+
+  public close() {
+    this.onClose?.();
+  }
+
+  public sendResult(id: Message['id'], result: unknown) {
+    this.send({ jsonrpc: '2.0', id: id ?? null, result });
+  }
+
+  public sendError(id: Message['id'], error: ResponseError) {
+    this.send({ jsonrpc: '2.0', id: id ?? null, error });
+  }
+
+  public sendNotification(method: string, params: unknown) {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: object) {
+    const body = JSON.stringify(message);
+
+    this.output.write(
+      `Content-Length: ${Buffer.byteLength(body)}${HEADER_DELIMITER}${body}`,
+    );
+  }
+
+  private readMessages(onMessage: (message: Message) => void) {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+
+      if (headerEnd === -1) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const contentLength = CONTENT_LENGTH_PATTERN.exec(header)?.[1];
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+
+      if (contentLength === undefined) {
+        // not a header we understand, skip it
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+
+      const bodyEnd = bodyStart + Number(contentLength);
+
+      if (this.buffer.length < bodyEnd) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      const message = this.parseMessage(body);
+
+      if (message) onMessage(message);
+    }
+  }
+
+  /**
+   * Answers messages that are not JSON or not objects with an error, as
+   * there is no request to match them with, and carries on reading.
+   */
+  private parseMessage(body: string): Message | undefined {
+    let message: unknown;
+
+    try {
+      message = JSON.parse(body);
+    } catch {
+      this.sendError(undefined, {
+        code: ErrorCodes.ParseError,
+        message: 'The message is not valid JSON',
+      });
+      return undefined;
+    }
+
+    if (typeof message !== 'object' || message === null) {
+      this.sendError(undefined, {
+        code: ErrorCodes.InvalidRequest,
+        message: 'The message is not a JSON-RPC object',
+      });
+      return undefined;
+    }
+
+    return message as Message;
+  }
+}
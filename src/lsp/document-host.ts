@@ -0,0 +1,18 @@
+import { FileSourceHost } from '../file-source-host';
+import type { SourceHost } from '../types';
+
+/**
+ * Reads files from the editor's open documents first, so includes see
+ * unsaved changes, and from disk otherwise.
+ */
+export class DocumentHost implements SourceHost {
+  constructor(
+    // file path to document text
+    private readonly documents: ReadonlyMap<string, string>,
+    private readonly fallback: SourceHost = new FileSourceHost(),
+  ) {}
+
+  public readFile(path: string): string | undefined {
+    return this.documents.get(path) ?? this.fallback.readFile(path);
+  }
+}
@@ -0,0 +1,101 @@
+// The subset of the Language Server Protocol the server speaks, see
+// https://microsoft.github.io/language-server-protocol/specification
+
+export interface Message {
+  jsonrpc: '2.0';
+  // absent for notifications
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+}
+
+export interface ResponseError {
+  code: number;
+  message: string;
+}
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+} as const;
+
+// zero-based, unlike positions in .scribe sources
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface TextDocumentIdentifier {
+  uri: string;
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+export interface DidOpenTextDocumentParams {
+  textDocument: TextDocumentIdentifier & { text: string };
+}
+
+export interface DidChangeTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+  // with full document sync the last change holds the whole text
+  contentChanges: { text: string }[];
+}
+
+export interface DidCloseTextDocumentParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+export interface ReferenceParams extends TextDocumentPositionParams {
+  context: { includeDeclaration: boolean };
+}
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+} as const;
+
+export interface Diagnostic {
+  range: Range;
+  severity: (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity];
+  code: string;
+  source: string;
+  message: string;
+  relatedInformation?: { location: Location; message: string }[];
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range: Range;
+}
+
+export const CompletionItemKind = {
+  Function: 3,
+  Variable: 6,
+  Keyword: 14,
+  Constant: 21,
+} as const;
+
+export interface CompletionItem {
+  label: string;
+  kind: (typeof CompletionItemKind)[keyof typeof CompletionItemKind];
+  detail?: string;
+}
+
+export const TextDocumentSyncKind = {
+  Full: 1,
+} as const;
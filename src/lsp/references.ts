@@ -0,0 +1,185 @@
+import type { CompileResult } from '../compiler';
+import { DiagnosticCollector } from '../diagnostics';
+import { Lexer } from '../lexer';
+import {
+  TokenType,
+  type Condition,
+  type Expression,
+  type ScriptBlock,
+  type SourceLocation,
+} from '../types';
+
+export interface Reference {
+  name: string;
+  // where the name is written, in its own file
+  location: SourceLocation;
+}
+
+/**
+ * Every place the symbols of a compiled program are named. Scripts are read
+ * from the parsed program, which tells variables from property names and
+ * finds those in message placeholders. The definitions around them keep no
+ * positions for what they refer to, so those are read from their tokens.
+ */
+export class ReferenceIndex {
+  private references: Reference[] = [];
+
+  constructor(private readonly program: CompileResult) {
+    for (const file of program.sourceMap.getFiles()) {
+      this.addDefinitionReferences(file);
+    }
+
+    for (const script of Object.values(program.gameDefinition.scripts)) {
+      this.addBlock(script.body);
+    }
+  }
+
+  public find(name: string): Reference[] {
+    return this.references.filter((reference) => reference.name === name);
+  }
+
+  /**
+   * The reference whose name spans `line`:`col` of `file`, if any.
+   */
+  public findAt(file: string, line: number, col: number) {
+    return this.references.find(
+      ({ name, location }) =>
+        location.file === file &&
+        location.line === line &&
+        location.col <= col &&
+        col <= location.col + name.length,
+    );
+  }
+
+  /**
+   * Adds the identifiers of `file` outside of script bodies, lexed on their
+   * own so positions are relative to the file. SCRIPT lines themselves are
+   * kept, as they name the script.
+   */
+  private addDefinitionReferences(file: string) {
+    const source = this.program.sourceMap.getSource(file) ?? '';
+    const tokens = new Lexer(
+      source,
+      1,
+      1,
+      new DiagnosticCollector(),
+    ).tokenize();
+    let isInScript = false;
+    let isScriptHeader = false;
+
+    tokens.forEach((token, position) => {
+      const previousToken = tokens[position - 1];
+
+      if (!previousToken || previousToken.type === TokenType.EOL) {
+        isInScript ||= isScriptHeader;
+        isScriptHeader = token.type === TokenType.SCRIPT;
+
+        if (token.type === TokenType.ENDSCRIPT) isInScript = false;
+      }
+
+      if (
+        isInScript ||
+        token.type !== TokenType.IDENT ||
+        previousToken?.type === TokenType.DOT
+      ) {
+        return;
+      }
+
+      this.add(token.value, { file, line: token.line, col: token.col });
+    });
+  }
+
+  private addBlock(block: ScriptBlock) {
+    for (const action of block) {
+      switch (action.kind) {
+        case 'message':
+          for (const segment of action.messageTemplate ?? []) {
+            if (segment.kind === 'expression') {
+              this.addExpression(segment.expression);
+            }
+          }
+
+          if (action.valueExpression) {
+            this.addExpression(action.valueExpression);
+          }
+          break;
+        case 'if':
+          this.addCondition(action.condition);
+          this.addBlock(action.thenBranch);
+
+          for (const branch of action.elseIfBranches) {
+            this.addCondition(branch.condition);
+            this.addBlock(branch.body);
+          }
+
+          this.addBlock(action.elseBranch ?? []);
+          break;
+        case 'for':
+          this.addExpression(action.collection);
+          this.addBlock(action.body);
+          break;
+        case 'set':
+          this.addExpression(action.target);
+          this.addExpression(action.value);
+          break;
+        case 'move':
+          this.addExpression(action.item);
+          this.addExpression(action.destination);
+          break;
+        default:
+          this.addExpression(action.item);
+          break;
+      }
+    }
+  }
+
+  private addCondition(condition: Condition) {
+    switch (condition.kind) {
+      case 'collectionCheck':
+        this.addExpression(condition.target);
+        break;
+      case 'comparison':
+        this.addExpression(condition.left);
+        this.addExpression(condition.right);
+        break;
+      case 'logical':
+        this.addCondition(condition.left);
+        this.addCondition(condition.right);
+        break;
+      case 'not':
+        this.addCondition(condition.operand);
+        break;
+    }
+  }
+
+  private addExpression(expression: Expression) {
+    switch (expression.kind) {
+      case 'variableAccess':
+        this.add(
+          expression.variableName,
+          this.program.sourceMap.resolve(expression.line, expression.col),
+        );
+        break;
+      case 'propertyAccess':
+        this.addExpression(expression.object);
+        break;
+      case 'indexedAccess':
+        this.addExpression(expression.object);
+        this.addExpression(expression.index);
+        break;
+      case 'binary':
+        this.addExpression(expression.left);
+        this.addExpression(expression.right);
+        break;
+      default:
+        break;
+    }
+  }
+
+  // only names of symbols are kept, leaving out loop variables and parameters
+  private add(name: string, location: SourceLocation) {
+    if (!this.program.symbols.has(name)) return;
+
+    this.references.push({ name, location });
+  }
+}
@@ -0,0 +1,463 @@
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Readable, Writable } from 'stream';
+import { Compiler, type CompileResult } from '../compiler';
+import { Lexer } from '../lexer';
+import {
+  INVENTORY_COLLECTION,
+  ITEMS_COLLECTION,
+  ROOMS_COLLECTION,
+} from '../constants/interpreter';
+import { NamedEntities, type Diagnostic, type SourceLocation } from '../types';
+import { Connection } from './connection';
+import { ReferenceIndex } from './references';
+import { DocumentHost } from './document-host';
+import {
+  CompletionItemKind,
+  DiagnosticSeverity,
+  ErrorCodes,
+  TextDocumentSyncKind,
+  type CompletionItem,
+  type Diagnostic as LspDiagnostic,
+  type DidChangeTextDocumentParams,
+  type DidCloseTextDocumentParams,
+  type DidOpenTextDocumentParams,
+  type Hover,
+  type Location,
+  type Message,
+  type Range,
+  type ReferenceParams,
+  type TextDocumentPositionParams,
+} from './protocol';
+
+const DIAGNOSTIC_SOURCE = 'scribe';
+
+class UnsupportedMethodError extends Error {}
+
+const symbolCompletionKinds = new Map<NamedEntities, CompletionItem['kind']>([
+  [NamedEntities.VARIABLE, CompletionItemKind.Variable],
+  [NamedEntities.ITEM, CompletionItemKind.Constant],
+  [NamedEntities.ROOM, CompletionItemKind.Constant],
+  [NamedEntities.SCRIPT, CompletionItemKind.Function],
+]);
+
+/**
+ * A language server for .scribe files. An open document is compiled as the
+ * entry file of a program, together with the files it includes, unless it is
+ * a file of a program already open. Then that program is compiled again, so
+ * included files are checked with the definitions of the files around them.
+ */
+export class LanguageServer {
+  private connection: Connection;
+  // file path to the text of every open document
+  private documents = new Map<string, string>();
+  private host = new DocumentHost(this.documents);
+  // entry file to the program last compiled from it
+  private programs = new Map<string, CompileResult>();
+  // entry file to the files of its program, which it publishes diagnostics for
+  private programFiles = new Map<string, string[]>();
+  private compiler = new Compiler(this.host);
+  private isShuttingDown = false;
+
+  constructor(input: Readable, output: Writable) {
+    this.connection = new Connection(input, output);
+  }
+
+  /**
+   * Serves requests until the client exits, resolving to the exit code the
+   * protocol asks for.
+   */
+  public async start(): Promise<number> {
+    await this.connection.listen((message) => this.handleMessage(message));
+
+    return this.isShuttingDown ? 0 : 1;
+  }
+
+  private handleMessage(message: Message) {
+    const { id, method, params } = message;
+
+    if (method === undefined) return; // responses to requests we never send
+
+    try {
+      const result = this.dispatch(method, params);
+
+      if (id !== undefined) {
+        this.connection.sendResult(id, result ?? null);
+      }
+    } catch (error) {
+      if (id === undefined) {
+        console.error(error);
+        return;
+      }
+
+      this.connection.sendError(id, {
+        code:
+          error instanceof UnsupportedMethodError
+            ? ErrorCodes.MethodNotFound
+            : ErrorCodes.InternalError,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private dispatch(method: string, params: unknown): unknown {
+    switch (method) {
+      case 'initialize':
+        return {
+          capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Full,
+            definitionProvider: true,
+            referencesProvider: true,
+            hoverProvider: true,
+            completionProvider: {},
+          },
+          serverInfo: { name: 'scribe' },
+        };
+      case 'shutdown':
+        this.isShuttingDown = true;
+        return null;
+      case 'exit':
+        this.connection.close();
+        return undefined;
+      case 'textDocument/didOpen': {
+        const { textDocument } = params as DidOpenTextDocumentParams;
+        this.updateDocument(textDocument.uri, textDocument.text);
+        return undefined;
+      }
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } =
+          params as DidChangeTextDocumentParams;
+        const change = contentChanges.at(-1);
+
+        if (change) this.updateDocument(textDocument.uri, change.text);
+        return undefined;
+      }
+      case 'textDocument/didClose': {
+        const { textDocument } = params as DidCloseTextDocumentParams;
+        this.closeDocument(textDocument.uri);
+        return undefined;
+      }
+      case 'textDocument/definition':
+        return this.findDefinition(params as TextDocumentPositionParams);
+      case 'textDocument/references':
+        return this.findReferences(params as ReferenceParams);
+      case 'textDocument/hover':
+        return this.hover(params as TextDocumentPositionParams);
+      case 'textDocument/completion':
+        return this.complete(params as TextDocumentPositionParams);
+      default:
+        // notifications we do not support are allowed to go unanswered
+        if (method.startsWith('$/')) return undefined;
+
+        throw new UnsupportedMethodError(`Unsupported method "${method}"`);
+    }
+  }
+
+  /**
+   * Compiles the programs `uri` is a file of again, or the document as a
+   * program of its own when it is part of none.
+   */
+  private updateDocument(uri: string, text: string) {
+    const file = fileURLToPath(uri);
+    const entryFiles = this.findEntryFiles(file);
+
+    this.documents.set(file, text);
+
+    for (const entryFile of entryFiles.length ? entryFiles : [file]) {
+      this.compileProgram(entryFile);
+    }
+  }
+
+  /**
+   * Keeps the programs that still have a file open, compiling those the
+   * document was part of again as its text is now read from disk.
+   */
+  private closeDocument(uri: string) {
+    const file = fileURLToPath(uri);
+
+    this.documents.delete(file);
+
+    for (const [entryFile, files] of [...this.programFiles]) {
+      if (!files.some((programFile) => this.documents.has(programFile))) {
+        this.removeProgram(entryFile);
+      } else if (files.includes(file)) {
+        this.compileProgram(entryFile);
+      }
+    }
+  }
+
+  private compileProgram(entryFile: string) {
+    const source = this.host.readFile(entryFile);
+
+    if (source === undefined) {
+      this.removeProgram(entryFile);
+      return;
+    }
+
+    let program: CompileResult;
+
+    try {
+      program = this.compiler.compile(source, entryFile);
+    } catch (error) {
+      console.error(error);
+      this.programs.delete(entryFile);
+      this.publishCompilerFailure(entryFile, error);
+      return;
+    }
+
+    this.programs.set(entryFile, program);
+    this.publishDiagnostics(entryFile, program);
+
+    // programs of files this one includes are now covered by it
+    for (const file of program.sourceMap.getFiles()) {
+      if (file !== entryFile) this.removeProgram(file);
+    }
+  }
+
+  private removeProgram(entryFile: string) {
+    const files = this.programFiles.get(entryFile) ?? [];
+
+    this.programs.delete(entryFile);
+    this.programFiles.delete(entryFile);
+
+    for (const file of files) {
+      if (!this.findEntryFiles(file).length) this.sendDiagnostics(file, []);
+    }
+  }
+
+  /**
+   * The entry files of the open programs `file` is part of.
+   */
+  private findEntryFiles(file: string) {
+    return [...this.programFiles]
+      .filter(([, files]) => files.includes(file))
+      .map(([entryFile]) => entryFile);
+  }
+
+  /**
+   * The program `file` was last compiled into, preferring its own.
+   */
+  private findProgram(file: string) {
+    const [entryFile = file] = this.findEntryFiles(file);
+
+    return this.programs.get(file) ?? this.programs.get(entryFile);
+  }
+
+  /**
+   * Publishes diagnostics for every file of the program, clearing those of
+   * files the entry file no longer includes.
+   */
+  private publishDiagnostics(entryFile: string, program: CompileResult) {
+    const files = program.sourceMap.getFiles();
+    const previousFiles = this.programFiles.get(entryFile) ?? [];
+
+    this.programFiles.set(entryFile, files);
+
+    for (const previousFile of previousFiles) {
+      if (!this.findEntryFiles(previousFile).length) {
+        this.sendDiagnostics(previousFile, []);
+      }
+    }
+
+    for (const programFile of files) {
+      this.sendDiagnostics(
+        programFile,
+        program.diagnostics
+          .filter((diagnostic) => diagnostic.file === programFile)
+          .map((diagnostic) => LanguageServer.toLspDiagnostic(diagnostic)),
+      );
+    }
+  }
+
+  /**
+   * Replaces the diagnostics of a program the compiler failed on with one on
+   * its entry file saying so, as those of its previous text no longer apply.
+   * Its files are kept, so changes to them still compile the whole program.
+   */
+  private publishCompilerFailure(entryFile: string, error: unknown) {
+    const files = this.programFiles.get(entryFile) ?? [];
+
+    for (const file of files) {
+      if (file !== entryFile) this.sendDiagnostics(file, []);
+    }
+
+    const start = { line: 0, character: 0 };
+
+    this.sendDiagnostics(entryFile, [
+      {
+        range: { start, end: start },
+        severity: DiagnosticSeverity.Error,
+        code: 'internal-error',
+        source: DIAGNOSTIC_SOURCE,
+        message: `The file could not be checked: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ]);
+    this.programFiles.set(entryFile, files.length ? files : [entryFile]);
+  }
+
+  private sendDiagnostics(file: string, diagnostics: LspDiagnostic[]) {
+    this.connection.sendNotification('textDocument/publishDiagnostics', {
+      uri: pathToFileURL(file).href,
+      diagnostics,
+    });
+  }
+
+  private findDefinition(params: TextDocumentPositionParams) {
+    const symbol = this.findSymbolAt(params);
+
+    if (!symbol) return null;
+
+    const { name, definition, program } = symbol;
+    const location = program.sourceMap.resolve(
+      definition.definitionLine,
+      definition.definitionColumn,
+    );
+
+    return LanguageServer.toLocation(location, name.length);
+  }
+
+  /**
+   * Finds every use of the symbol under the cursor in the files of the
+   * program.
+   */
+  private findReferences(params: ReferenceParams): Location[] {
+    const symbol = this.findSymbolAt(params);
+
+    if (!symbol) return [];
+
+    const { name, definition, program, references } = symbol;
+    const declaration = program.sourceMap.resolve(
+      definition.definitionLine,
+      definition.definitionColumn,
+    );
+
+    return references
+      .find(name)
+      .filter(
+        ({ location }) =>
+          params.context.includeDeclaration ||
+          location.file !== declaration.file ||
+          location.line !== declaration.line ||
+          location.col !== declaration.col,
+      )
+      .map(({ location }) => LanguageServer.toLocation(location, name.length));
+  }
+
+  private hover(params: TextDocumentPositionParams): Hover | null {
+    const symbol = this.findSymbolAt(params);
+
+    if (!symbol) return null;
+
+    const { name, location, program } = symbol;
+    const { items, rooms } = program.gameDefinition;
+    const entity = items[name] ?? rooms[name];
+
+    if (!entity) return null;
+
+    const kind = items[name] ? 'item' : 'room';
+
+    return {
+      contents: {
+        kind: 'markdown',
+        value: `**${entity.name}** (${kind} \`${name}\`)\n\n${entity.desc}`,
+      },
+      range: LanguageServer.toRange(location.line, location.col, name.length),
+    };
+  }
+
+  private complete(params: TextDocumentPositionParams): CompletionItem[] {
+    const program = this.findProgram(fileURLToPath(params.textDocument.uri));
+    const keywords = Lexer.getKeywords().map(
+      (keyword): CompletionItem => ({
+        label: keyword,
+        kind: CompletionItemKind.Keyword,
+      }),
+    );
+    const collections = [
+      ROOMS_COLLECTION,
+      ITEMS_COLLECTION,
+      INVENTORY_COLLECTION,
+    ].map(
+      (name): CompletionItem => ({
+        label: name,
+        kind: CompletionItemKind.Variable,
+        detail: 'built-in collection',
+      }),
+    );
+    const symbols = [...(program?.symbols ?? [])].map(
+      ([name, { type }]): CompletionItem => ({
+        label: name,
+        kind: symbolCompletionKinds.get(type) ?? CompletionItemKind.Variable,
+        detail: NamedEntities[type],
+      }),
+    );
+
+    return [...keywords, ...collections, ...symbols];
+  }
+
+  /**
+   * Finds the reference under the cursor to a symbol of the program the
+   * document was last compiled into.
+   */
+  private findSymbolAt({ textDocument, position }: TextDocumentPositionParams) {
+    const file = fileURLToPath(textDocument.uri);
+    const program = this.findProgram(file);
+
+    if (!program) return undefined;
+
+    const references = new ReferenceIndex(program);
+    const reference = references.findAt(
+      file,
+      position.line + 1,
+      position.character + 1,
+    );
+    const definition = reference && program.symbols.get(reference.name);
+
+    if (!reference || !definition) return undefined;
+
+    return { ...reference, definition, program, references };
+  }
+
+  private static toLspDiagnostic(diagnostic: Diagnostic): LspDiagnostic {
+    const { range, severity, code, message, suggestion, previousDefinition } =
+      diagnostic;
+
+    return {
+      range: {
+        start: { line: range.start.line - 1, character: range.start.col - 1 },
+        end: { line: range.end.line - 1, character: range.end.col - 1 },
+      },
+      severity:
+        severity === 'error'
+          ? DiagnosticSeverity.Error
+          : DiagnosticSeverity.Warning,
+      code,
+      source: DIAGNOSTIC_SOURCE,
+      message: suggestion
+        ? `${message}. Did you mean "${suggestion}"?`
+        : message,
+      relatedInformation: previousDefinition && [
+        {
+          location: LanguageServer.toLocation(previousDefinition, 1),
+          message: 'First defined here',
+        },
+      ],
+    };
+  }
+
+  private static toLocation(
+    location: SourceLocation,
+    length: number,
+  ): Location {
+    return {
+      uri: location.file ? pathToFileURL(location.file).href : '',
+      range: LanguageServer.toRange(location.line, location.col, length),
+    };
+  }
+
+  private static toRange(line: number, col: number, length: number): Range {
+    return {
+      start: { line: line - 1, character: col - 1 },
+      end: { line: line - 1, character: col - 1 + length },
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import type { SaveStorage } from './types';
+
+export class MemorySaveStorage implements SaveStorage {
+  private slots = new Map<string, string>();
+
+  public read(slot: string): string | undefined {
+    return this.slots.get(slot);
+  }
+
+  public write(slot: string, data: string) {
+    this.slots.set(slot, data);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+import { Compiler } from './compiler';
+
+/**
+ * The code and position of every diagnostic of `source`, as messages are
+ * free to change.
+ */
+function compile(source: string) {
+  const { gameDefinition, diagnostics } = new Compiler().compile(source);
+
+  return {
+    gameDefinition,
+    errors: diagnostics.map(
+      ({ code, range }) => `${code} ${range.start.line}:${range.start.col}`,
+    ),
+  };
+}
+
+describe('Parser error recovery', () => {
+  test('reports every broken definition and keeps the others', () => {
+    const { gameDefinition, errors } = compile(`VAR playerLocation = cave
+VAR = 5
+VAR hp 5
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+VAR hp = 3
+`);
+
+    expect(errors).toEqual([
+      'missing-variable-name 2:5',
+      'unexpected-token 3:8',
+      'duplicate-variable 6:5',
+    ]);
+    expect(Object.keys(gameDefinition.rooms)).toEqual(['cave']);
+    expect(gameDefinition.variables.hp?.initialValue).toBe(3);
+  });
+
+  test('carries on with the next action of a broken script', () => {
+    const { gameDefinition, errors } = compile(`VAR playerLocation = cave
+VAR hp = 10
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+SCRIPT hurt
+  MESSAGE "a" "b"
+  SET hp =
+  SET hp = hp - 1
+ENDSCRIPT
+`);
+
+    expect(errors).toEqual(['unexpected-token 6:15', 'unexpected-token 7:11']);
+    expect(gameDefinition.scripts.hurt?.body).toHaveLength(1);
+  });
+
+  test('collects lexer errors along with those of the parser', () => {
+    const { errors } = compile(`VAR playerLocation = cave
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+SCRIPT broken
+  MESSAGE @
+ENDSCRIPT
+VAR = 1
+`);
+
+    expect(errors).toEqual([
+      'lexer-error 5:11',
+      'unexpected-token 5:12',
+      'missing-variable-name 7:5',
+    ]);
+  });
+
+  test('checks the semantics of sources that parse cleanly', () => {
+    const { errors } = compile(`VAR playerLocation = cave
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+SCRIPT broken
+  MESSAGE nope
+ENDSCRIPT
+`);
+
+    expect(errors).toEqual(['undefined-identifier 5:11']);
+  });
+});
+
+describe('Parser references', () => {
+  test('requires EXECUTE to name a script', () => {
+    const { errors } = compile(`VAR playerLocation = cave
+VAR hp = 10
+ROOM "Cave" ID=cave
+  DESC "A dark cave."
+  ON ENTER EXECUTE hp
+COMMAND "look"
+  EFFECT EXECUTE cave
+`);
+
+    expect(errors).toEqual([
+      'invalid-reference 5:20',
+      'invalid-reference 7:18',
+    ]);
+  });
+});
@@ -1,18 +1,38 @@
 import { strict as assert } from 'assert';
 import {
   ItemInteractions,
+  NamedEntities,
   TokenType,
+  type ArithmeticOperator,
+  type BinaryExpression,
+  type CallScriptEffect,
   type CollectionCheckCondition,
+  type CommandAlias,
+  type CommandPattern,
   type ComparisonCondition,
+  type ComparisonOperator,
+  type DestroyAction,
+  type DropAction,
+  type ElseIfBranch,
   type Condition,
+  type ExamineAction,
   type Expression,
   type ForAction,
   type GameDefinition,
   type IfAction,
+  type ItemEvent,
+  type LiteralExpression,
+  type LogicalCondition,
   type MessageAction,
+  type MessageTemplate,
+  type MoveAction,
+  type NotCondition,
+  type RoomEvent,
   type ScriptAction,
   type ScriptBlock,
+  type SetAction,
   type SymbolDefinition,
+  type TakeAction,
   type Token,
   type VariableAccessExpression,
   type VariableType,
@@ -20,19 +40,82 @@ import {
 } from './types';
 import {
   InvalidNumberFormatError,
+  MissingCommandEffectError,
+  ReferenceError,
   UndefinedIdentifierError,
   UnexpectedTokenError,
 } from './errors/parser';
 import { GameDefinitionBuilder } from './builders/game-definition';
+import { Lexer } from './lexer';
+import { reportOrThrow, type DiagnosticCollector } from './diagnostics';
+import { findSuggestion } from './suggestions';
 
 export class Parser {
   private currentToken: Token;
   private currentPosition = 0;
   private gameDefinitionBuilder = new GameDefinitionBuilder();
+  // closing tokens of every block being parsed, innermost last
+  private openBlocks: Set<TokenType>[] = [];
+
+  private static arithmeticOperators = new Map<TokenType, ArithmeticOperator>([
+    [TokenType.PLUS, '+'],
+    [TokenType.MINUS, '-'],
+    [TokenType.STAR, '*'],
+    [TokenType.SLASH, '/'],
+  ]);
+
+  private static itemActionKinds = new Map<
+    TokenType,
+    (TakeAction | DropAction | DestroyAction | ExamineAction)['kind']
+  >([
+    [TokenType.TAKE, 'take'],
+    [TokenType.DROP, 'drop'],
+    [TokenType.DESTROY, 'destroy'],
+    [TokenType.EXAMINE, 'examine'],
+  ]);
+
+  private static roomEvents = new Map<TokenType, RoomEvent>([
+    [TokenType.ENTER, 'enter'],
+    [TokenType.LEAVE, 'leave'],
+  ]);
+
+  private static itemEvents = new Map<TokenType, ItemEvent>([
+    [TokenType.TAKE, 'take'],
+    [TokenType.DROP, 'drop'],
+    [TokenType.EXAMINE, 'examine'],
+  ]);
+
+  private static comparisonOperators = new Map<TokenType, ComparisonOperator>([
+    [TokenType.EQ, '=='],
+    [TokenType.NEQ, '!='],
+    [TokenType.LT, '<'],
+    [TokenType.LTE, '<='],
+    [TokenType.GT, '>'],
+    [TokenType.GTE, '>='],
+  ]);
+
+  // tokens that can follow an expression inside a condition
+  private static expressionContinuations = new Set([
+    ...Parser.arithmeticOperators.keys(),
+    ...Parser.comparisonOperators.keys(),
+    TokenType.HAS,
+    TokenType.DOT,
+    TokenType.LBRACKET,
+  ]);
+
+  private static topLevelKeywords = new Set([
+    TokenType.VAR,
+    TokenType.ITEM,
+    TokenType.ROOM,
+    TokenType.COMMAND,
+    TokenType.SCRIPT,
+    TokenType.ON,
+  ]);
 
   constructor(
     private readonly tokens: Token[],
     private readonly symbolsMap: Map<string, SymbolDefinition>,
+    private readonly diagnostics?: DiagnosticCollector,
   ) {
     this.currentToken = tokens[this.currentPosition]!;
   }
@@ -41,45 +124,90 @@ export class Parser {
     if (!this.tokens.length) return this.gameDefinitionBuilder.build();
 
     while (!this.eof()) {
-      switch (this.currentToken.type) {
-        case TokenType.VAR: {
-          this.parseVariableDefinition();
-          break;
-        }
+      const startPosition = this.currentPosition;
 
-        case TokenType.ITEM: {
-          this.parseItemDefinition();
-          break;
-        }
+      try {
+        this.parseTopLevelDefinition();
+      } catch (error) {
+        reportOrThrow(this.diagnostics, error);
+        this.synchronize(startPosition);
+      }
+    }
 
-        case TokenType.ROOM: {
-          this.parseRoomDefinition();
-          break;
-        }
+    return this.gameDefinitionBuilder.build();
+  }
 
-        case TokenType.COMMAND: {
-          this.parseCommandDefinition();
-          break;
-        }
+  private parseTopLevelDefinition() {
+    switch (this.currentToken.type) {
+      case TokenType.VAR: {
+        this.parseVariableDefinition();
+        break;
+      }
 
-        case TokenType.SCRIPT: {
-          this.parseScriptDefinition();
-          break;
-        }
+      case TokenType.ITEM: {
+        this.parseItemDefinition();
+        break;
+      }
 
-        case TokenType.EOL: {
-          this.consume();
-          break;
-        }
+      case TokenType.ROOM: {
+        this.parseRoomDefinition();
+        break;
+      }
 
-        default: {
-          this.consume();
-          break;
-        }
+      case TokenType.COMMAND: {
+        this.parseCommandDefinition();
+        break;
+      }
+
+      case TokenType.SCRIPT: {
+        this.parseScriptDefinition();
+        break;
+      }
+
+      case TokenType.ON: {
+        this.parseTurnHook();
+        break;
+      }
+
+      case TokenType.EOL: {
+        this.consume();
+        break;
+      }
+
+      default: {
+        const token = this.currentToken;
+
+        throw new UnexpectedTokenError(
+          `Unexpected ${token.value} outside of a definition. Expected VAR, ITEM, ROOM, COMMAND, SCRIPT or ON.`,
+          token.line,
+          token.col,
+          Parser.getTokenLength(token),
+        );
       }
     }
+  }
 
-    return this.gameDefinitionBuilder.build();
+  /**
+   * Skips to the next top-level definition, always moving past at least
+   * one token so a failing definition cannot be parsed forever.
+   */
+  private synchronize(startPosition: number) {
+    if (this.currentPosition === startPosition && !this.eof()) {
+      this.consume();
+    }
+
+    while (!this.eof()) {
+      const previousToken = this.tokens[this.currentPosition - 1];
+
+      if (
+        Parser.topLevelKeywords.has(this.currentToken.type) &&
+        previousToken?.type === TokenType.EOL
+      ) {
+        return;
+      }
+
+      this.consume();
+    }
   }
 
   private parseVariableDefinition() {
@@ -88,7 +216,7 @@ export class Parser {
     const { value: variableName, line, col } = this.currentToken;
 
     if (!this.symbolsMap.has(variableName)) {
-      throw new UndefinedIdentifierError('Variablel', variableName, line, col);
+      throw new UndefinedIdentifierError('Variable', variableName, line, col);
     }
 
     this.expect(TokenType.IDENT, 'Expected variable identifier after VAR');
@@ -159,8 +287,14 @@ export class Parser {
       TokenType.TAKEABLE,
     ]);
 
-    while (itemProperties.has(this.currentToken.type)) {
+    while (this.skipToNextProperty(itemProperties, Parser.itemEvents)) {
       switch (this.currentToken.type) {
+        case TokenType.ON: {
+          const { event, effect } = this.parseEventHook(Parser.itemEvents);
+          this.gameDefinitionBuilder.setItemHook(identifier, event, effect);
+          break;
+        }
+
         case TokenType.DESC: {
           const { variableValue } = this.parseObjectDescription();
 
@@ -192,6 +326,7 @@ export class Parser {
               variableValue,
               this.currentToken.line,
               this.currentToken.col,
+              this.suggestSymbol(variableValue, NamedEntities.ROOM),
             );
           }
           this.gameDefinitionBuilder.setItemLocation(identifier, variableValue);
@@ -275,10 +410,16 @@ export class Parser {
       col: roomCol,
     });
 
-    const roomProperties = new Set([TokenType.DESC]);
+    const roomProperties = new Set([TokenType.DESC, TokenType.EXIT]);
 
-    while (roomProperties.has(this.currentToken.type)) {
+    while (this.skipToNextProperty(roomProperties, Parser.roomEvents)) {
       switch (this.currentToken.type) {
+        case TokenType.ON: {
+          const { event, effect } = this.parseEventHook(Parser.roomEvents);
+          this.gameDefinitionBuilder.setRoomHook(identifier, event, effect);
+          break;
+        }
+
         case TokenType.DESC: {
           const { variableValue } = this.parseObjectDescription();
           this.gameDefinitionBuilder.setRoomDesc(identifier, variableValue);
@@ -291,8 +432,64 @@ export class Parser {
           break;
         }
 
+        case TokenType.EXIT: {
+          const { line: exitLine, col: exitCol } = this.expect(
+            TokenType.EXIT,
+            `Expected EXIT found ${this.currentToken.value}`,
+          );
+          const { value: direction } = this.expect(
+            TokenType.IDENT,
+            `Expected direction after "EXIT" found ${this.currentToken.value}`,
+          );
+          this.expect(
+            TokenType.ASSIGNMENT,
+            `Expected "=" after EXIT direction`,
+          );
+
+          const {
+            value: targetId,
+            line: targetLine,
+            col: targetCol,
+          } = this.expect(
+            TokenType.IDENT,
+            `Expected ROOM identifier for EXIT found ${this.currentToken.value}`,
+          );
+          const referencedSymbol = this.symbolsMap.get(targetId);
+
+          if (!referencedSymbol) {
+            throw new UndefinedIdentifierError(
+              'Identifier for ROOM EXIT',
+              targetId,
+              targetLine,
+              targetCol,
+              this.suggestSymbol(targetId, NamedEntities.ROOM),
+            );
+          }
+
+          if (referencedSymbol.type !== NamedEntities.ROOM) {
+            throw new ReferenceError(
+              `EXIT "${direction}" must lead to a ROOM, but '${targetId}' is type ${NamedEntities[referencedSymbol.type]}`,
+              targetLine,
+              targetCol,
+            );
+          }
+
+          this.gameDefinitionBuilder.setRoomExit(identifier, {
+            direction,
+            roomId: targetId,
+            line: exitLine,
+            col: exitCol,
+          });
+
+          this.expect(
+            TokenType.EOL,
+            `Expected end of line found ${this.currentToken.value}`,
+          );
+          break;
+        }
+
         default:
-          throw new Error('not yet implemented');
+          break;
       }
     }
   }
@@ -304,73 +501,237 @@ export class Parser {
       `Expected COMMAND found ${this.currentToken.value}`,
     );
 
-    const { value: commandVerb } = this.expect(
+    const verbToken = this.expect(
       TokenType.STRING,
       `Expected string name of COMMAND found ${this.currentToken.value}`,
     );
+    const commandVerb = verbToken.value;
+    const commandPattern = Parser.parseCommandPattern(verbToken);
 
     this.expect(
       TokenType.EOL,
       `Expected EOL after COMMAND name found ${this.currentToken.value}`,
     );
 
-    const commandProperties = new Set([TokenType.EFFECT]);
-
-    while (commandProperties.has(this.currentToken.type)) {
-      const { line: effectLine, col: effectCol } = this.currentToken;
-      this.expect(
-        TokenType.EFFECT,
-        `Expected EFFECT found ${this.currentToken.value}`,
-      );
+    const commandProperties = new Set([TokenType.EFFECT, TokenType.ALIAS]);
+    const aliases: CommandAlias[] = [];
+    let effect: CallScriptEffect | undefined;
 
+    while (this.skipToNextProperty(commandProperties)) {
       switch (this.currentToken.type) {
-        case TokenType.EXECUTE: {
-          this.consume(); // skip EXECUTE keyword
+        case TokenType.EFFECT: {
+          if (effect) {
+            throw new UnexpectedTokenError(
+              `COMMAND "${commandVerb}" already has an EFFECT`,
+              this.currentToken.line,
+              this.currentToken.col,
+            );
+          }
 
-          const {
-            value: scriptName,
-            line: scriptNameLine,
-            col: scriptNameCol,
-          } = this.currentToken;
-          const referencedSymbol = this.symbolsMap.get(scriptName);
+          effect = this.parseCommandEffect();
+          break;
+        }
 
-          if (!referencedSymbol) {
-            throw new UndefinedIdentifierError(
-              'Identifier',
-              scriptName,
-              scriptNameLine,
-              scriptNameCol,
+        case TokenType.ALIAS: {
+          this.expect(
+            TokenType.ALIAS,
+            `Expected ALIAS found ${this.currentToken.value}`,
+          );
+          const aliasToken = this.expect(
+            TokenType.STRING,
+            `Expected string after ALIAS found ${this.currentToken.value}`,
+          );
+          const aliasPattern = Parser.parseCommandPattern(aliasToken);
+
+          if (!Parser.haveSameParameters(commandPattern, aliasPattern)) {
+            throw new ReferenceError(
+              `ALIAS "${aliasToken.value}" must use the same parameters as COMMAND "${commandVerb}"`,
+              aliasToken.line,
+              aliasToken.col,
             );
           }
 
-          this.gameDefinitionBuilder.addCommand({
-            line: commandLine,
-            col: commandCol,
-            verb: commandVerb,
-            effect: {
-              kind: 'callScript',
-              scriptId: scriptName,
-              line: effectLine,
-              col: effectCol,
-            },
+          aliases.push({
+            verb: aliasToken.value,
+            pattern: aliasPattern,
+            line: aliasToken.line,
+            col: aliasToken.col,
           });
 
-          this.consume(); // skip value
           this.expect(
             TokenType.EOL,
             `Expected end of line found ${this.currentToken.value}`,
           );
           break;
         }
-        default: {
-          throw new UnexpectedTokenError(
-            `Unexpected token ${this.currentToken.value} found within the effect block`,
-            effectLine,
-            effectCol,
-          );
-        }
+
+        default:
+          break;
       }
     }
+
+    if (!effect) {
+      throw new MissingCommandEffectError(commandVerb, commandLine, commandCol);
+    }
+
+    this.gameDefinitionBuilder.addCommand({
+      line: commandLine,
+      col: commandCol,
+      verb: commandVerb,
+      pattern: commandPattern,
+      aliases,
+      effect,
+    });
+  }
+
+  private parseCommandEffect(): CallScriptEffect {
+    const { line: effectLine, col: effectCol } = this.currentToken;
+    this.expect(
+      TokenType.EFFECT,
+      `Expected EFFECT found ${this.currentToken.value}`,
+    );
+
+    return this.parseScriptCall(effectLine, effectCol);
+  }
+
+  /**
+   * Parses `EXECUTE <script>` up to the end of the line, for an effect or
+   * hook starting at `line`:`col`.
+   */
+  private parseScriptCall(line: number, col: number): CallScriptEffect {
+    if (!Parser.match(this.currentToken.type, TokenType.EXECUTE)) {
+      throw new UnexpectedTokenError(
+        `Unexpected token ${this.currentToken.value} found within the effect block`,
+        line,
+        col,
+      );
+    }
+
+    this.consume(); // skip EXECUTE keyword
+
+    const {
+      value: scriptName,
+      line: scriptNameLine,
+      col: scriptNameCol,
+    } = this.currentToken;
+    const referencedSymbol = this.symbolsMap.get(scriptName);
+
+    if (!referencedSymbol) {
+      throw new UndefinedIdentifierError(
+        'Identifier',
+        scriptName,
+        scriptNameLine,
+        scriptNameCol,
+        this.suggestSymbol(scriptName, NamedEntities.SCRIPT),
+      );
+    }
+
+    if (referencedSymbol.type !== NamedEntities.SCRIPT) {
+      throw new ReferenceError(
+        `EXECUTE must run a SCRIPT, but '${scriptName}' is type ${NamedEntities[referencedSymbol.type]}`,
+        scriptNameLine,
+        scriptNameCol,
+      );
+    }
+
+    this.consume(); // skip value
+    this.expect(
+      TokenType.EOL,
+      `Expected end of line found ${this.currentToken.value}`,
+    );
+
+    return {
+      kind: 'callScript',
+      scriptId: scriptName,
+      line,
+      col,
+    };
+  }
+
+  /**
+   * Moves to the next property of an item, room or command, past the blank
+   * and comment-only lines before it. Returns false, staying put, when the
+   * next line that is not blank holds no property, which ends the list.
+   */
+  private skipToNextProperty(
+    properties: ReadonlySet<TokenType>,
+    events: ReadonlyMap<TokenType, string> = new Map(),
+  ) {
+    let position = this.currentPosition;
+
+    while (this.tokens[position]?.type === TokenType.EOL) position += 1;
+
+    const token = this.tokens[position];
+    const isProperty =
+      token !== undefined &&
+      (properties.has(token.type) || this.isEventHook(events, position));
+
+    if (!isProperty) return false;
+
+    while (this.currentPosition < position) this.consume();
+
+    return true;
+  }
+
+  /**
+   * Whether the line at `position` is an `ON <event>` hook for one of
+   * `events`.
+   */
+  private isEventHook(
+    events: ReadonlyMap<TokenType, string>,
+    position: number,
+  ) {
+    const onToken = this.tokens[position];
+    const eventToken = this.tokens[position + 1];
+
+    return (
+      onToken !== undefined &&
+      Parser.match(onToken.type, TokenType.ON) &&
+      eventToken !== undefined &&
+      events.has(eventToken.type)
+    );
+  }
+
+  private parseEventHook<T extends string>(events: ReadonlyMap<TokenType, T>) {
+    const { line, col } = this.expect(
+      TokenType.ON,
+      `Expected ON found ${this.currentToken.value}`,
+    );
+    const eventToken = this.currentToken;
+    const event = events.get(eventToken.type);
+
+    if (!event) {
+      throw new UnexpectedTokenError(
+        `Expected one of ${[...events.keys()].map((type) => TokenType[type]).join(', ')} after "ON" but found ${eventToken.value}`,
+        eventToken.line,
+        eventToken.col,
+        eventToken.value.length,
+      );
+    }
+
+    this.consume(); // skip event
+
+    return { event, effect: this.parseScriptCall(line, col) };
+  }
+
+  private parseTurnHook() {
+    const eventToken = this.tokens[this.currentPosition + 1];
+
+    if (
+      eventToken &&
+      (Parser.roomEvents.has(eventToken.type) ||
+        Parser.itemEvents.has(eventToken.type))
+    ) {
+      throw new UnexpectedTokenError(
+        `"ON ${eventToken.value}" must be part of ${Parser.roomEvents.has(eventToken.type) ? 'a ROOM' : 'an ITEM'} definition`,
+        this.currentToken.line,
+        this.currentToken.col,
+        'ON'.length,
+      );
+    }
+
+    const { effect } = this.parseEventHook(new Map([[TokenType.TURN, 'turn']]));
+    this.gameDefinitionBuilder.addTurnHook(effect);
   }
 
   private parseScriptDefinition() {
@@ -401,7 +762,7 @@ export class Parser {
 
     this.expect(
       TokenType.ENDSCRIPT,
-      `Expected ENDSCRIPT for script '${scriptName}' but found ${this.currentToken.type}`,
+      `Expected ENDSCRIPT for script '${scriptName}' but found ${TokenType[this.currentToken.type]}`,
     );
     this.expect(
       TokenType.EOL,
@@ -418,9 +779,25 @@ export class Parser {
         return this.parseIfAction();
       case TokenType.FOR:
         return this.parseForAction();
+      case TokenType.SET:
+        return this.parseSetAction();
+      case TokenType.TAKE:
+      case TokenType.DROP:
+      case TokenType.DESTROY:
+      case TokenType.EXAMINE:
+        return this.parseItemAction();
+      case TokenType.MOVE:
+        return this.parseMoveAction();
+      case TokenType.ELSE:
+      case TokenType.ELSEIF:
+        throw new UnexpectedTokenError(
+          `Unexpected ${actionToken.value} without a matching IF`,
+          actionToken.line,
+          actionToken.col,
+        );
       default:
         throw new UnexpectedTokenError(
-          `Unexpected token type ${actionToken.value} inside script block. Expected action keyword (MESSAGE, IF, FOR, etc.).`,
+          `Unexpected token type ${actionToken.value} inside script block. Expected action keyword (MESSAGE, IF, FOR, SET, TAKE, etc.).`,
           actionToken.line,
           actionToken.col,
         );
@@ -436,21 +813,17 @@ export class Parser {
     const messageCol = this.currentToken.col;
     let actionData: Pick<MessageAction, 'messageTemplate' | 'valueExpression'>;
 
-    if (Parser.match(this.currentToken.type, TokenType.IDENT)) {
-      const expression = this.parseExpression();
-      actionData = { valueExpression: expression };
-    } else if (Parser.match(this.currentToken.type, TokenType.STRING)) {
+    if (Parser.match(this.currentToken.type, TokenType.STRING)) {
       const templateToken = this.expect(
         TokenType.STRING,
         'Expected string literal after MESSAGE',
       );
-      actionData = { messageTemplate: templateToken.value };
+      actionData = {
+        messageTemplate: this.parseMessageTemplate(templateToken),
+      };
     } else {
-      throw new UnexpectedTokenError(
-        'Expected string literal or expression after MESSAGE',
-        this.currentToken.line,
-        this.currentToken.col,
-      );
+      const expression = this.parseExpression();
+      actionData = { valueExpression: expression };
     }
 
     const messageAction: MessageAction = {
@@ -467,14 +840,133 @@ export class Parser {
     return messageAction;
   }
 
+  /**
+   * Splits a template string into literal text and `{...}` placeholders,
+   * each placeholder being parsed as a regular expression. The template is
+   * read as written, so `\\{` stays literal text and positions stay exact;
+   * placeholders are source code and decode no escapes of the string.
+   */
+  private parseMessageTemplate(templateToken: Token): MessageTemplate {
+    const { text: template, offset } = Parser.getStringContent(templateToken);
+    const segments: MessageTemplate = [];
+    let literal = '';
+    let cursor = 0;
+
+    while (cursor < template.length) {
+      const ch = template[cursor];
+      assert(ch !== undefined);
+
+      if (ch === '\\') {
+        const escaped = template[cursor + 1] ?? '';
+        // the lexer reported invalid escapes and kept them as written
+        literal += Lexer.decodeEscape(escaped) ?? `${ch}${escaped}`;
+        cursor += 2;
+        continue;
+      }
+
+      if (ch !== '{') {
+        literal += ch;
+        cursor += 1;
+        continue;
+      }
+
+      const { line, col } = Parser.getPositionInString(
+        templateToken,
+        offset + cursor,
+      );
+      const closingIndex = template.indexOf('}', cursor + 1);
+
+      if (closingIndex === -1) {
+        throw new UnexpectedTokenError(
+          'Unterminated "{" placeholder in message template',
+          line,
+          col,
+        );
+      }
+
+      if (literal) {
+        segments.push({ kind: 'literal', value: literal });
+        literal = '';
+      }
+
+      const expression = this.parseEmbeddedExpression(
+        template.slice(cursor + 1, closingIndex),
+        line,
+        col + 1,
+      );
+      segments.push({ kind: 'expression', expression });
+
+      cursor = closingIndex + 1;
+    }
+
+    if (literal) {
+      segments.push({ kind: 'literal', value: literal });
+    }
+
+    return segments;
+  }
+
+  private parseEmbeddedExpression(
+    source: string,
+    line: number,
+    col: number,
+  ): Expression {
+    // ended by a newline, so even an empty placeholder lexes to an EOL
+    const tokens = new Lexer(
+      `${source}\n`,
+      line,
+      col,
+      this.diagnostics,
+    ).tokenize();
+    const parser = new Parser(tokens, this.symbolsMap, this.diagnostics);
+
+    const expression = parser.parseExpression();
+    parser.expect(
+      TokenType.EOL,
+      `Unexpected ${parser.currentToken.value} in message placeholder`,
+    );
+
+    return expression;
+  }
+
   private parseIfAction(): IfAction {
     const ifToken = this.expect(TokenType.IF, 'Expected "IF" keyword');
     const condition = this.parseCondition();
     this.expect(TokenType.THEN, 'Expected "THEN" keyword after IF condition');
     this.expect(TokenType.EOL, 'Expected end of line after THEN');
 
-    // TODO(fcasibu): elseif/ else
-    const thenBranch = this.parseBlockUntil(TokenType.ENDIF);
+    const branchEndTokens = [TokenType.ENDIF, TokenType.ELSEIF, TokenType.ELSE];
+    const thenBranch = this.parseBlockUntil(...branchEndTokens);
+    const elseIfBranches: ElseIfBranch[] = [];
+
+    while (Parser.match(this.currentToken.type, TokenType.ELSEIF)) {
+      const elseIfToken = this.expect(
+        TokenType.ELSEIF,
+        'Expected "ELSEIF" keyword',
+      );
+      const elseIfCondition = this.parseCondition();
+      this.expect(
+        TokenType.THEN,
+        'Expected "THEN" keyword after ELSEIF condition',
+      );
+      this.expect(TokenType.EOL, 'Expected end of line after THEN');
+
+      elseIfBranches.push({
+        condition: elseIfCondition,
+        body: this.parseBlockUntil(...branchEndTokens),
+        line: elseIfToken.line,
+        col: elseIfToken.col,
+      });
+    }
+
+    let elseBranch: ScriptBlock | undefined;
+
+    if (Parser.match(this.currentToken.type, TokenType.ELSE)) {
+      this.consume();
+      this.expect(TokenType.EOL, 'Expected end of line after ELSE');
+
+      elseBranch = this.parseBlockUntil(TokenType.ENDIF);
+    }
 
     this.expect(TokenType.ENDIF, 'Expected "ENDIF" to close IF statement');
     this.expect(TokenType.EOL, 'Expected end of line after ENDIF');
@@ -483,6 +975,8 @@ export class Parser {
       kind: 'if',
       condition: condition,
       thenBranch: thenBranch,
+      elseIfBranches,
+      elseBranch,
       line: ifToken.line,
       col: ifToken.col,
     };
@@ -505,7 +999,7 @@ export class Parser {
       collectionExpr.kind !== 'indexedAccess'
     ) {
       throw new UnexpectedTokenError(
-        'Invalid expression type found for FOR loop collection, found ${this.currentToken.value}',
+        `Invalid expression type found for FOR loop collection, found ${collectionExpr.kind}`,
         forToken.line,
         forToken.col,
       );
@@ -531,6 +1025,7 @@ export class Parser {
     const forAction: ForAction = {
       kind: 'for',
       variableName: variableName,
+      variableCol: variableToken.col,
       collection: collectionExpr,
       body: body,
       line: forToken.line,
@@ -539,7 +1034,210 @@ export class Parser {
     return forAction;
   }
 
+  private parseSetAction(): SetAction {
+    const setToken = this.expect(TokenType.SET, 'Expected "SET" keyword');
+    const target = this.parseExpression();
+
+    if (target.kind !== 'variableAccess') {
+      throw new UnexpectedTokenError(
+        'SET target must be a variable',
+        target.line,
+        target.col,
+      );
+    }
+
+    const referencedSymbol = this.symbolsMap.get(target.variableName);
+    if (referencedSymbol?.type !== NamedEntities.VARIABLE) {
+      throw new UndefinedIdentifierError(
+        'Variable',
+        target.variableName,
+        target.line,
+        target.col,
+        this.suggestSymbol(target.variableName, NamedEntities.VARIABLE),
+      );
+    }
+
+    this.expect(
+      TokenType.ASSIGNMENT,
+      `Expected "=" after SET target but found ${this.currentToken.value}`,
+    );
+
+    const value = this.parseExpression();
+
+    this.expect(
+      TokenType.EOL,
+      `Expected end of line after SET value but found ${this.currentToken.value}`,
+    );
+
+    const setAction: SetAction = {
+      kind: 'set',
+      target,
+      value,
+      line: setToken.line,
+      col: setToken.col,
+    };
+    return setAction;
+  }
+
+  private parseItemAction():
+    | TakeAction
+    | DropAction
+    | DestroyAction
+    | ExamineAction {
+    const actionToken = this.currentToken;
+    const kind = Parser.itemActionKinds.get(actionToken.type);
+    assert(kind, `Invalid item action ${actionToken.value}`);
+
+    this.consume();
+    const item = this.parseExpression();
+
+    this.expect(
+      TokenType.EOL,
+      `Expected end of line after ${actionToken.value} item but found ${this.currentToken.value}`,
+    );
+
+    return { kind, item, line: actionToken.line, col: actionToken.col };
+  }
+
+  private parseMoveAction(): MoveAction {
+    const moveToken = this.expect(TokenType.MOVE, 'Expected "MOVE" keyword');
+    const item = this.parseExpression();
+
+    this.expect(
+      TokenType.TO,
+      `Expected "TO" after MOVE item but found ${this.currentToken.value}`,
+    );
+    const destination = this.parseExpression();
+
+    this.expect(
+      TokenType.EOL,
+      `Expected end of line after MOVE destination but found ${this.currentToken.value}`,
+    );
+
+    const moveAction: MoveAction = {
+      kind: 'move',
+      item,
+      destination,
+      line: moveToken.line,
+      col: moveToken.col,
+    };
+    return moveAction;
+  }
+
   private parseCondition(): Condition {
+    return this.parseOrCondition();
+  }
+
+  private parseOrCondition(): Condition {
+    let leftCondition = this.parseAndCondition();
+
+    while (Parser.match(this.currentToken.type, TokenType.OR)) {
+      const operatorToken = this.currentToken;
+      this.consume();
+
+      const rightCondition = this.parseAndCondition();
+      const condition: LogicalCondition = {
+        kind: 'logical',
+        operator: 'OR',
+        left: leftCondition,
+        right: rightCondition,
+        line: operatorToken.line,
+        col: operatorToken.col,
+      };
+      leftCondition = condition;
+    }
+
+    return leftCondition;
+  }
+
+  private parseAndCondition(): Condition {
+    let leftCondition = this.parseNotCondition();
+
+    while (Parser.match(this.currentToken.type, TokenType.AND)) {
+      const operatorToken = this.currentToken;
+      this.consume();
+
+      const rightCondition = this.parseNotCondition();
+      const condition: LogicalCondition = {
+        kind: 'logical',
+        operator: 'AND',
+        left: leftCondition,
+        right: rightCondition,
+        line: operatorToken.line,
+        col: operatorToken.col,
+      };
+      leftCondition = condition;
+    }
+
+    return leftCondition;
+  }
+
+  private parseNotCondition(): Condition {
+    if (Parser.match(this.currentToken.type, TokenType.NOT)) {
+      const notToken = this.currentToken;
+      this.consume();
+
+      const condition: NotCondition = {
+        kind: 'not',
+        operand: this.parseNotCondition(),
+        line: notToken.line,
+        col: notToken.col,
+      };
+      return condition;
+    }
+
+    return this.parsePrimaryCondition();
+  }
+
+  /**
+   * A parenthesis opens a group of conditions unless what follows its
+   * closing one carries on an expression, as in `(hp + 1) > 2`.
+   */
+  private parsePrimaryCondition(): Condition {
+    if (
+      Parser.match(this.currentToken.type, TokenType.LPAREN) &&
+      !this.isParenthesizedExpression()
+    ) {
+      this.consume();
+      const condition = this.parseCondition();
+      this.expect(
+        TokenType.RPAREN,
+        `Expected ")" to close condition group but found ${this.currentToken.value}`,
+      );
+
+      return condition;
+    }
+
+    return this.parseSimpleCondition();
+  }
+
+  private isParenthesizedExpression() {
+    let depth = 0;
+
+    for (
+      let position = this.currentPosition;
+      position < this.tokens.length;
+      position++
+    ) {
+      const { type } = this.tokens[position]!;
+
+      if (type === TokenType.EOL) return false;
+      if (type === TokenType.LPAREN) depth += 1;
+      if (type === TokenType.RPAREN) depth -= 1;
+
+      if (depth === 0) {
+        const nextType = this.tokens[position + 1]?.type;
+
+        return (
+          nextType !== undefined && Parser.expressionContinuations.has(nextType)
+        );
+      }
+    }
+
+    return false;
+  }
+
+  private parseSimpleCondition(): Condition {
     const startLine = this.currentToken.line;
     const startCol = this.currentToken.col;
     const leftExpr = this.parseExpression();
@@ -550,7 +1248,8 @@ export class Parser {
 
       if (
         leftExpr.kind !== 'indexedAccess' &&
-        leftExpr.kind !== 'propertyAccess'
+        leftExpr.kind !== 'propertyAccess' &&
+        leftExpr.kind !== 'variableAccess'
       ) {
         throw new UnexpectedTokenError(
           '"HAS ITEMS" condition requires a valid object/collection access',
@@ -567,44 +1266,119 @@ export class Parser {
         col: startCol,
       };
       return condition;
-    } else if (Parser.match(this.currentToken.type, TokenType.EQ)) {
+    }
+
+    const operator = Parser.comparisonOperators.get(this.currentToken.type);
+
+    if (operator) {
       this.consume();
       const rightExpr = this.parseExpression();
 
       const condition: ComparisonCondition = {
         kind: 'comparison',
         left: leftExpr,
-        operator: '==',
+        operator,
         right: rightExpr,
         line: startLine,
         col: startCol,
       };
       return condition;
-    } else {
-      throw new UnexpectedTokenError(
-        `Expected condition operator (HAS, ==) after expression, but found ${this.currentToken.type}`,
-        this.currentToken.line,
-        this.currentToken.col,
-      );
     }
+
+    throw new UnexpectedTokenError(
+      `Expected condition operator (HAS, ==, !=, <, <=, >, >=) after expression, but found ${this.currentToken.value}`,
+      this.currentToken.line,
+      this.currentToken.col,
+    );
   }
 
   private parseBlockUntil(...endTokens: TokenType[]): ScriptBlock {
     const block: ScriptBlock = [];
     const endTokenSet = new Set(endTokens);
 
+    this.openBlocks.push(endTokenSet);
+
     while (!endTokenSet.has(this.currentToken.type)) {
+      // leave the mismatch to the caller's closing-keyword check
+      if (this.isBlockBoundary()) break;
+
       if (Parser.match(this.currentToken.type, TokenType.EOL)) {
         this.consume();
         continue;
       }
-      block.push(this.parseScriptAction());
+
+      try {
+        block.push(this.parseScriptAction());
+      } catch (error) {
+        reportOrThrow(this.diagnostics, error);
+
+        if (!this.isBlockBoundary()) {
+          this.skipToNextLine();
+        }
+      }
     }
 
+    this.openBlocks.pop();
+
     return block;
   }
 
   private parseExpression(): Expression {
+    return this.parseAdditiveExpression();
+  }
+
+  private parseAdditiveExpression(): Expression {
+    let leftExpr = this.parseMultiplicativeExpression();
+
+    while (
+      Parser.match(this.currentToken.type, TokenType.PLUS) ||
+      Parser.match(this.currentToken.type, TokenType.MINUS)
+    ) {
+      leftExpr = this.parseBinaryExpression(leftExpr, () =>
+        this.parseMultiplicativeExpression(),
+      );
+    }
+
+    return leftExpr;
+  }
+
+  private parseMultiplicativeExpression(): Expression {
+    let leftExpr = this.parseAccessExpression();
+
+    while (
+      Parser.match(this.currentToken.type, TokenType.STAR) ||
+      Parser.match(this.currentToken.type, TokenType.SLASH)
+    ) {
+      leftExpr = this.parseBinaryExpression(leftExpr, () =>
+        this.parseAccessExpression(),
+      );
+    }
+
+    return leftExpr;
+  }
+
+  private parseBinaryExpression(
+    leftExpr: Expression,
+    parseOperand: () => Expression,
+  ): BinaryExpression {
+    const operatorToken = this.currentToken;
+    const operator = Parser.arithmeticOperators.get(operatorToken.type);
+    assert(operator, `Invalid arithmetic operator ${operatorToken.value}`);
+
+    this.consume();
+    const rightExpr = parseOperand();
+
+    return {
+      kind: 'binary',
+      operator,
+      left: leftExpr,
+      right: rightExpr,
+      line: operatorToken.line,
+      col: operatorToken.col,
+    };
+  }
+
+  private parseAccessExpression(): Expression {
     let leftExpr = this.parsePrimaryExpression();
     while (
       Parser.match(this.currentToken.type, TokenType.DOT) ||
@@ -651,6 +1425,17 @@ export class Parser {
   private parsePrimaryExpression(): Expression {
     const token = this.currentToken;
 
+    if (Parser.match(token.type, TokenType.LPAREN)) {
+      this.consume();
+      const expression = this.parseExpression();
+      this.expect(
+        TokenType.RPAREN,
+        `Expected ")" to close expression group but found ${this.currentToken.value}`,
+      );
+
+      return expression;
+    }
+
     if (Parser.match(token.type, TokenType.IDENT)) {
       this.consume();
       const variableAccess: VariableAccessExpression = {
@@ -662,13 +1447,42 @@ export class Parser {
       return variableAccess;
     }
 
+    if (Parser.isLiteralToken(token)) {
+      return this.parseLiteralExpression();
+    }
+
     throw new UnexpectedTokenError(
-      `Expected expression start (Identifier or Literal), but found ${token.type}`,
+      `Expected expression start (Identifier, Literal or "("), but found ${TokenType[token.type]}`,
       token.line,
       token.col,
     );
   }
 
+  private parseLiteralExpression(): LiteralExpression {
+    const { line, col } = this.currentToken;
+    const { variableValue, variableType } = this.parseVariableValue();
+
+    this.consume(); // skip value
+
+    switch (variableType) {
+      case 'NUMBER': {
+        assert(typeof variableValue === 'number');
+        return { kind: 'numberLiteral', value: variableValue, line, col };
+      }
+      case 'BOOL': {
+        assert(typeof variableValue === 'boolean');
+        return { kind: 'booleanLiteral', value: variableValue, line, col };
+      }
+      case 'STRING': {
+        assert(typeof variableValue === 'string');
+        return { kind: 'stringLiteral', value: variableValue, line, col };
+      }
+      case 'ID': {
+        assert(false, 'Identifiers are parsed as variable access');
+      }
+    }
+  }
+
   private parseVariableValue(): {
     variableValue: VariableValue;
     variableType: VariableType;
@@ -740,6 +1554,33 @@ export class Parser {
     return { variableValue, variableType };
   }
 
+  /**
+   * Whether the current token ends the file, a top-level definition or any
+   * block that is still open. Stray closing keywords are not boundaries.
+   */
+  private isBlockBoundary() {
+    const { type } = this.currentToken;
+
+    return (
+      this.eof() ||
+      Parser.topLevelKeywords.has(type) ||
+      this.openBlocks.some((endTokens) => endTokens.has(type))
+    );
+  }
+
+  private skipToNextLine() {
+    while (
+      !Parser.match(this.currentToken.type, TokenType.EOL) &&
+      !this.eof()
+    ) {
+      this.consume();
+    }
+
+    if (Parser.match(this.currentToken.type, TokenType.EOL)) {
+      this.consume();
+    }
+  }
+
   private consume() {
     assert(
       this.currentPosition < this.tokens.length,
@@ -758,8 +1599,9 @@ export class Parser {
     if (!Parser.match(token.type, tokenType)) {
       throw new UnexpectedTokenError(
         message,
-        this.currentToken.line,
-        this.currentToken.col,
+        token.line,
+        token.col,
+        Parser.getTokenLength(token),
       );
     }
 
@@ -767,10 +1609,128 @@ export class Parser {
     return token;
   }
 
+  private suggestSymbol(name: string, type: NamedEntities) {
+    const candidates = [...this.symbolsMap]
+      .filter(([, symbol]) => symbol.type === type)
+      .map(([symbolName]) => symbolName);
+
+    return findSuggestion(name, candidates);
+  }
+
   private eof() {
     return this.currentToken.type === TokenType.EOF;
   }
 
+  /**
+   * Splits a command verb such as "take {item}" into literal words and
+   * named parameters.
+   */
+  private static parseCommandPattern(verbToken: Token): CommandPattern {
+    const words = verbToken.value.trim().split(/\s+/).filter(Boolean);
+    const pattern: CommandPattern = [];
+    const parameterNames = new Set<string>();
+
+    if (!words.length) {
+      throw new UnexpectedTokenError(
+        'COMMAND name cannot be empty',
+        verbToken.line,
+        verbToken.col,
+      );
+    }
+
+    for (const word of words) {
+      const parameterName = /^\{([a-zA-Z_]+)\}$/.exec(word)?.[1];
+
+      if (parameterName) {
+        if (parameterNames.has(parameterName)) {
+          throw new UnexpectedTokenError(
+            `Duplicate parameter "{${parameterName}}" in COMMAND "${verbToken.value}"`,
+            verbToken.line,
+            verbToken.col,
+          );
+        }
+
+        parameterNames.add(parameterName);
+        pattern.push({ kind: 'parameter', name: parameterName });
+        continue;
+      }
+
+      if (word.includes('{') || word.includes('}')) {
+        throw new UnexpectedTokenError(
+          `Invalid parameter "${word}" in COMMAND "${verbToken.value}", expected {name}`,
+          verbToken.line,
+          verbToken.col,
+        );
+      }
+
+      pattern.push({ kind: 'word', value: word });
+    }
+
+    return pattern;
+  }
+
+  private static haveSameParameters(
+    pattern: CommandPattern,
+    otherPattern: CommandPattern,
+  ) {
+    const getParameterNames = (segments: CommandPattern) =>
+      segments
+        .flatMap((segment) =>
+          segment.kind === 'parameter' ? [segment.name] : [],
+        )
+        .sort()
+        .join(' ');
+
+    return getParameterNames(pattern) === getParameterNames(otherPattern);
+  }
+
+  private static getStringContent(stringToken: Token) {
+    assert(stringToken.raw !== undefined, 'String token without source text');
+
+    return Lexer.getStringContent(stringToken.raw);
+  }
+
+  /**
+   * Position of the character at `offset` in the source text of a string.
+   */
+  private static getPositionInString(stringToken: Token, offset: number) {
+    assert(stringToken.raw !== undefined, 'String token without source text');
+
+    let line = stringToken.line;
+    let col = stringToken.col;
+
+    for (const ch of stringToken.raw.slice(0, offset)) {
+      if (ch === '\n') {
+        line += 1;
+        col = 1;
+      } else {
+        col += 1;
+      }
+    }
+
+    return { line, col };
+  }
+
+  private static isLiteralToken(token: Token) {
+    return (
+      Parser.match(token.type, TokenType.NUMBER) ||
+      Parser.match(token.type, TokenType.STRING) ||
+      Parser.match(token.type, TokenType.BOOL)
+    );
+  }
+
+  private static getTokenLength(token: Token) {
+    switch (token.type) {
+      case TokenType.EOL:
+      case TokenType.EOF:
+        return 1;
+      case TokenType.STRING:
+        return token.raw?.length ?? token.value.length;
+      default:
+        return token.value.length;
+    }
+  }
+
   private static match(tokenType: TokenType, toMatchTokenType: TokenType) {
     return tokenType === toMatchTokenType;
   }
@@ -0,0 +1,768 @@
+import { strict as assert } from 'assert';
+import { Lexer } from './lexer';
+import { TRIPLE_QUOTE } from './constants/lexer';
+import { UnformattableLineError } from './errors/formatter';
+import {
+  ItemInteractions,
+  type ArithmeticOperator,
+  TokenType,
+  type CallScriptEffect,
+  type CommandDefinition,
+  type Comment,
+  type Condition,
+  type Expression,
+  type GameDefinition,
+  type GameVariableDefinition,
+  type ItemDefinition,
+  type ItemEvent,
+  type LogicalOperator,
+  type MessageTemplate,
+  type RoomDefinition,
+  type RoomEvent,
+  type ScriptAction,
+  type ScriptBlock,
+  type ScriptDefinition,
+  type Token,
+  type VariableType,
+  type VariableValue,
+} from './types';
+import type { SourceMap } from './source-map';
+import { reportOrThrow, type DiagnosticCollector } from './diagnostics';
+
+const INDENT = '  ';
+
+type Quote = '"' | "'" | typeof TRIPLE_QUOTE;
+
+interface PrintedLine {
+  text: string;
+  depth: number;
+  // the line of the source it was printed from
+  sourceLine: number;
+  // ELSEIF, ELSE and the END keywords, which close the block above them
+  closesBlock: boolean;
+  // set on the first line of every top-level definition
+  definition?: 'line' | 'block';
+}
+
+interface TopLevelDefinition {
+  line: number;
+  // `endLine` is where the next definition of the file starts
+  print: (endLine: number) => void;
+}
+
+/**
+ * Prints one file of a parsed program back in its canonical layout:
+ * properties and nested blocks indented by two spaces, strings in double
+ * quotes unless written in triple quotes, item and room properties in a fixed
+ * order, and a blank line around every definition that spans several lines.
+ *
+ * Definitions are printed in the order they were written and comments are put
+ * back with the lines they were written above or beside. The file is lexed
+ * again on its own for its comments, INCLUDEs and the positions of the lines
+ * the program does not keep, such as ENDIF.
+ */
+export class Printer {
+  private lines: PrintedLine[] = [];
+  private depth = 0;
+  private tokens: Token[];
+  // the first token of every line that is not empty
+  private lineStarts: Token[];
+  private sourceLines: string[];
+  // lines a string in triple quotes starts on
+  private tripleQuotedLines: Set<number>;
+  private firstLine: number;
+  // the closing keywords of the file, in the order they will be printed
+  private closingTokens: Token[];
+  // comments keyed by the line of the code they were written above
+  private leadingComments = new Map<number, Comment[]>();
+  private trailingComments = new Map<number, Comment>();
+  // comments after the last line of code
+  private finalComments: Comment[] = [];
+
+  private static itemEvents: ItemEvent[] = ['take', 'drop', 'examine'];
+  private static roomEvents: RoomEvent[] = ['enter', 'leave'];
+
+  private static closingKeywords = new Set([
+    TokenType.ELSE,
+    TokenType.ENDIF,
+    TokenType.ENDFOR,
+    TokenType.ENDSCRIPT,
+  ]);
+
+  private static propertyKeywords = new Set([
+    TokenType.DESC,
+    TokenType.LOCATION,
+    TokenType.TAKEABLE,
+    TokenType.EXIT,
+    TokenType.ON,
+  ]);
+
+  private static logicalPrecedence: Record<LogicalOperator, number> = {
+    OR: 1,
+    AND: 2,
+  };
+
+  private static arithmeticPrecedence: Record<ArithmeticOperator, number> = {
+    '+': 1,
+    '-': 1,
+    '*': 2,
+    '/': 2,
+  };
+
+  /**
+   * `gameDefinition` must come from a program that parsed without errors.
+   */
+  constructor(
+    private readonly gameDefinition: GameDefinition,
+    private readonly sourceMap: SourceMap,
+    private readonly file: string,
+    private readonly diagnostics?: DiagnosticCollector,
+  ) {
+    const source = sourceMap.getSource(file);
+    const firstLine = sourceMap.getFirstLine(file);
+    assert(
+      source !== undefined && firstLine !== undefined,
+      `${file} is not part of the program`,
+    );
+
+    const lexer = new Lexer(source, firstLine);
+
+    this.tokens = lexer.tokenize();
+    this.lineStarts = this.tokens.filter(
+      (token, position) =>
+        token.type !== TokenType.EOL &&
+        token.type !== TokenType.EOF &&
+        (position === 0 || this.tokens[position - 1]?.type === TokenType.EOL),
+    );
+    this.closingTokens = this.lineStarts.filter(({ type }) =>
+      Printer.closingKeywords.has(type),
+    );
+    this.sourceLines = source.split('\n');
+    this.tripleQuotedLines = new Set(
+      this.tokens
+        .filter(({ raw }) => raw?.startsWith(TRIPLE_QUOTE))
+        .map(({ line }) => line),
+    );
+    this.firstLine = firstLine;
+    this.attachComments(lexer.getComments());
+  }
+
+  public print(): string {
+    const definitions = this.getDefinitions();
+
+    definitions.forEach(({ print }, index) => {
+      print(definitions[index + 1]?.line ?? Infinity);
+    });
+
+    this.checkEveryLinePrinted();
+
+    return this.render();
+  }
+
+  /**
+   * The top-level definitions written in the file, in source order.
+   */
+  private getDefinitions(): TopLevelDefinition[] {
+    const { variables, items, rooms, commands, scripts, turnHooks } =
+      this.gameDefinition;
+    const definitions: TopLevelDefinition[] = [
+      ...this.lineStarts
+        .filter(({ type }) => type === TokenType.INCLUDE)
+        .map((token) => ({
+          line: token.line,
+          print: () => this.printInclude(token),
+        })),
+      ...Object.values(variables).map((variable) => ({
+        line: variable.line,
+        print: () => this.printVariable(variable),
+      })),
+      ...Object.values(items).map((item) => ({
+        line: item.line,
+        print: (endLine: number) => this.printItem(item, endLine),
+      })),
+      ...Object.values(rooms).map((room) => ({
+        line: room.line,
+        print: (endLine: number) => this.printRoom(room, endLine),
+      })),
+      ...commands.map((command) => ({
+        line: command.line,
+        print: () => this.printCommand(command),
+      })),
+      ...Object.values(scripts).map((script) => ({
+        line: script.line,
+        print: () => this.printScript(script),
+      })),
+      ...turnHooks.map((hook) => ({
+        line: hook.line,
+        print: () => this.printTurnHook(hook),
+      })),
+    ];
+
+    return definitions
+      .filter(({ line }) => this.sourceMap.resolve(line, 1).file === this.file)
+      .sort((a, b) => a.line - b.line);
+  }
+
+  private printInclude(includeToken: Token) {
+    const pathToken = this.tokens[this.tokens.indexOf(includeToken) + 1];
+    assert(pathToken?.type === TokenType.STRING, 'Invalid INCLUDE');
+
+    this.emit(`INCLUDE ${Printer.quote(pathToken.value)}`, includeToken.line, {
+      definition: 'line',
+    });
+  }
+
+  private printVariable(variable: GameVariableDefinition) {
+    const { name, type, initialValue, line } = variable;
+
+    const value = Printer.printValue(type, initialValue, this.getQuote(line));
+
+    this.emit(`VAR ${name} = ${value}`, line, {
+      definition: 'line',
+    });
+  }
+
+  private printItem(item: ItemDefinition, endLine: number) {
+    this.emit(`ITEM ${Printer.quote(item.name)} ID=${item.id}`, item.line, {
+      definition: 'block',
+    });
+
+    this.indented(() => {
+      const descLine = this.findPropertyLine(TokenType.DESC, item, endLine);
+      const locationLine = this.findPropertyLine(
+        TokenType.LOCATION,
+        item,
+        endLine,
+      );
+      const takeableLine = this.findPropertyLine(
+        TokenType.TAKEABLE,
+        item,
+        endLine,
+      );
+
+      if (descLine !== undefined) {
+        const desc = Printer.quote(item.desc, this.getQuote(descLine));
+
+        this.emit(`DESC ${desc}`, descLine);
+      }
+
+      if (locationLine !== undefined) {
+        this.emit(`LOCATION=${item.initialLocation}`, locationLine);
+      }
+
+      if (takeableLine !== undefined) {
+        const isTakeable = item.interactions.includes(
+          ItemInteractions.Takeable,
+        );
+        this.emit(`TAKEABLE=${isTakeable}`, takeableLine);
+      }
+
+      for (const event of Printer.itemEvents) {
+        const hook = item.events[event];
+        if (hook) this.printHook(event, hook);
+      }
+    });
+  }
+
+  private printRoom(room: RoomDefinition, endLine: number) {
+    this.emit(`ROOM ${Printer.quote(room.name)} ID=${room.id}`, room.line, {
+      definition: 'block',
+    });
+
+    this.indented(() => {
+      const descLine = this.findPropertyLine(TokenType.DESC, room, endLine);
+
+      if (descLine !== undefined) {
+        const desc = Printer.quote(room.desc, this.getQuote(descLine));
+
+        this.emit(`DESC ${desc}`, descLine);
+      }
+
+      for (const exit of Object.values(room.exits)) {
+        this.emit(`EXIT ${exit.direction} = ${exit.roomId}`, exit.line);
+      }
+
+      for (const event of Printer.roomEvents) {
+        const hook = room.events[event];
+        if (hook) this.printHook(event, hook);
+      }
+    });
+  }
+
+  private printCommand(command: CommandDefinition) {
+    this.emit(`COMMAND ${Printer.quote(command.verb)}`, command.line, {
+      definition: 'block',
+    });
+
+    this.indented(() => {
+      for (const alias of command.aliases) {
+        this.emit(`ALIAS ${Printer.quote(alias.verb)}`, alias.line);
+      }
+
+      this.emit(
+        `EFFECT EXECUTE ${command.effect.scriptId}`,
+        command.effect.line,
+      );
+    });
+  }
+
+  private printScript(script: ScriptDefinition) {
+    this.emit(`SCRIPT ${script.id}`, script.line, { definition: 'block' });
+    this.indented(() => this.printBlock(script.body));
+    this.emitClosing(TokenType.ENDSCRIPT);
+  }
+
+  private printTurnHook(hook: CallScriptEffect) {
+    this.emit(`ON TURN EXECUTE ${hook.scriptId}`, hook.line, {
+      definition: 'line',
+    });
+  }
+
+  private printHook(event: ItemEvent | RoomEvent, hook: CallScriptEffect) {
+    this.emit(`ON ${event.toUpperCase()} EXECUTE ${hook.scriptId}`, hook.line);
+  }
+
+  private printBlock(block: ScriptBlock) {
+    for (const action of block) {
+      this.printAction(action);
+    }
+  }
+
+  private printAction(action: ScriptAction) {
+    switch (action.kind) {
+      case 'message': {
+        const { messageTemplate, valueExpression } = action;
+        const quote = this.getQuote(action.line);
+        const message = messageTemplate
+          ? Printer.printTemplate(messageTemplate, quote)
+          : valueExpression && Printer.printExpression(valueExpression, quote);
+        assert(message !== undefined, 'MESSAGE without content');
+
+        this.emit(`MESSAGE ${message}`, action.line);
+        break;
+      }
+      case 'if': {
+        this.emit(
+          `IF ${Printer.printCondition(action.condition)} THEN`,
+          action.line,
+        );
+        this.indented(() => this.printBlock(action.thenBranch));
+
+        for (const branch of action.elseIfBranches) {
+          this.emit(
+            `ELSEIF ${Printer.printCondition(branch.condition)} THEN`,
+            branch.line,
+            { closesBlock: true },
+          );
+          this.indented(() => this.printBlock(branch.body));
+        }
+
+        const { elseBranch } = action;
+
+        if (elseBranch) {
+          this.emitClosing(TokenType.ELSE);
+          this.indented(() => this.printBlock(elseBranch));
+        }
+
+        this.emitClosing(TokenType.ENDIF);
+        break;
+      }
+      case 'for': {
+        const collection = Printer.printExpression(action.collection);
+
+        this.emit(
+          `FOR ${action.variableName} IN ${collection} DO`,
+          action.line,
+        );
+        this.indented(() => this.printBlock(action.body));
+        this.emitClosing(TokenType.ENDFOR);
+        break;
+      }
+      case 'set': {
+        const target = Printer.printExpression(action.target);
+        const value = Printer.printExpression(
+          action.value,
+          this.getQuote(action.line),
+        );
+
+        this.emit(`SET ${target} = ${value}`, action.line);
+        break;
+      }
+      case 'move': {
+        const item = Printer.printExpression(action.item);
+        const destination = Printer.printExpression(action.destination);
+
+        this.emit(`MOVE ${item} TO ${destination}`, action.line);
+        break;
+      }
+      case 'take':
+      case 'drop':
+      case 'destroy':
+      case 'examine': {
+        const item = Printer.printExpression(action.item);
+
+        this.emit(`${action.kind.toUpperCase()} ${item}`, action.line);
+        break;
+      }
+    }
+  }
+
+  private indented(print: () => void) {
+    this.depth += 1;
+    print();
+    this.depth -= 1;
+  }
+
+  private emit(
+    text: string,
+    sourceLine: number,
+    options: Partial<Pick<PrintedLine, 'closesBlock' | 'definition'>> = {},
+  ) {
+    this.lines.push({
+      text,
+      depth: this.depth,
+      sourceLine,
+      closesBlock: options.closesBlock ?? false,
+      definition: options.definition,
+    });
+  }
+
+  /**
+   * Prints a closing keyword, which the program has no position for, at the
+   * line of the next one written in the file.
+   */
+  private emitClosing(type: TokenType) {
+    const token = this.closingTokens.shift();
+    assert(
+      token?.type === type,
+      `Expected ${TokenType[type]} but found ${token?.value}`,
+    );
+
+    this.emit(token.value, token.line, { closesBlock: true });
+  }
+
+  /**
+   * Finds the line an item or room property without a position of its own
+   * was written at. Like the parser, the properties of a definition end at
+   * the first line that is neither one nor blank, or where the next
+   * definition starts at `endLine`.
+   */
+  private findPropertyLine(
+    type: TokenType,
+    definition: ItemDefinition | RoomDefinition,
+    endLine: number,
+  ) {
+    let position = this.tokens.findIndex(
+      ({ line }) => line === definition.line,
+    );
+
+    for (;;) {
+      while (this.tokens[position]?.type !== TokenType.EOL) position++;
+      // blank and comment-only lines
+      while (this.tokens[position + 1]?.type === TokenType.EOL) position++;
+
+      const token = this.tokens[position + 1];
+
+      if (
+        !token ||
+        token.line >= endLine ||
+        !Printer.propertyKeywords.has(token.type)
+      ) {
+        return undefined;
+      }
+
+      if (token.type === type) return token.line;
+
+      position += 1;
+    }
+  }
+
+  /**
+   * Reports lines the program kept nothing of, which printing would lose.
+   * The parser reports what it skips, so this guards against lines the
+   * printer does not know how to place.
+   */
+  private checkEveryLinePrinted() {
+    const printedLines = new Set(
+      this.lines.map(({ sourceLine }) => sourceLine),
+    );
+
+    for (const token of this.lineStarts) {
+      if (printedLines.has(token.line)) continue;
+
+      reportOrThrow(
+        this.diagnostics,
+        new UnformattableLineError(token.line, token.col, token.value.length),
+      );
+    }
+  }
+
+  private attachComments(comments: Comment[]) {
+    for (const comment of comments) {
+      const hasCodeBefore = this.lineStarts.some(
+        ({ line, col }) => line === comment.line && col < comment.col,
+      );
+
+      if (hasCodeBefore) {
+        this.trailingComments.set(comment.line, comment);
+        continue;
+      }
+
+      const nextCode = this.lineStarts.find(({ line }) => line > comment.line);
+
+      if (!nextCode) {
+        this.finalComments.push(comment);
+        continue;
+      }
+
+      const leadingComments = this.leadingComments.get(nextCode.line) ?? [];
+      leadingComments.push(comment);
+      this.leadingComments.set(nextCode.line, leadingComments);
+    }
+  }
+
+  private render(): string {
+    const output: string[] = [];
+    let previousLine: PrintedLine | undefined;
+    let previousDefinition: PrintedLine['definition'];
+
+    for (const line of this.lines) {
+      const comments = this.leadingComments.get(line.sourceLine) ?? [];
+      const firstSourceLine = comments[0]?.line ?? line.sourceLine;
+
+      if (
+        previousLine &&
+        this.needsBlankLine(
+          line,
+          previousLine,
+          previousDefinition,
+          firstSourceLine,
+        )
+      ) {
+        output.push('');
+      }
+
+      // comments above a closing keyword belong to the block it closes
+      const commentDepth = line.closesBlock ? line.depth + 1 : line.depth;
+
+      comments.forEach((comment, index) => {
+        if (index > 0 && this.isBlank(comment.line - 1)) output.push('');
+        output.push(Printer.indent(comment.text, commentDepth));
+      });
+
+      if (
+        comments.length &&
+        !line.closesBlock &&
+        this.isBlank(line.sourceLine - 1)
+      ) {
+        output.push('');
+      }
+
+      const trailingComment = this.trailingComments.get(line.sourceLine);
+      const text = trailingComment
+        ? `${line.text} ${trailingComment.text}`
+        : line.text;
+
+      output.push(Printer.indent(text, line.depth));
+
+      previousLine = line;
+      previousDefinition = line.definition ?? previousDefinition;
+    }
+
+    for (const comment of this.finalComments) {
+      if (output.length && this.isBlank(comment.line - 1)) output.push('');
+      output.push(comment.text);
+    }
+
+    return output.length ? `${output.join('\n')}\n` : '';
+  }
+
+  /**
+   * Keeps single blank lines where the source had some, and always
+   * separates definitions spanning several lines from their neighbours.
+   */
+  private needsBlankLine(
+    line: PrintedLine,
+    previousLine: PrintedLine,
+    previousDefinition: PrintedLine['definition'],
+    firstSourceLine: number,
+  ) {
+    if (line.depth > previousLine.depth || line.closesBlock) return false;
+
+    if (
+      line.definition &&
+      (line.definition === 'block' || previousDefinition === 'block')
+    ) {
+      return true;
+    }
+
+    return this.isBlank(firstSourceLine - 1);
+  }
+
+  private isBlank(line: number) {
+    return this.sourceLines[line - this.firstLine]?.trim() === '';
+  }
+
+  /**
+   * Strings on lines written with triple quotes are printed in them again,
+   * the others in double quotes.
+   */
+  private getQuote(sourceLine: number): Quote {
+    return this.tripleQuotedLines.has(sourceLine) ? TRIPLE_QUOTE : '"';
+  }
+
+  private static printValue(
+    type: VariableType,
+    value: VariableValue,
+    quote: Quote,
+  ) {
+    return type === 'STRING'
+      ? Printer.quote(String(value), quote)
+      : String(value);
+  }
+
+  private static printTemplate(template: MessageTemplate, quote: Quote) {
+    const literals = template.flatMap((segment) =>
+      segment.kind === 'literal' ? [segment.value] : [],
+    );
+    const delimiter = Printer.getDelimiter(literals.join(''), quote);
+    const text = template
+      .map((segment) =>
+        segment.kind === 'literal'
+          ? Printer.escape(segment.value, delimiter).replaceAll('{', '\\{')
+          : // the quotes of the template would end it early
+            `{${Printer.printExpression(segment.expression, "'")}}`,
+      )
+      .join('');
+
+    return `${delimiter}${text}${delimiter}`;
+  }
+
+  private static printExpression(
+    expression: Expression,
+    quote: Quote = '"',
+  ): string {
+    switch (expression.kind) {
+      case 'variableAccess':
+        return expression.variableName;
+      case 'propertyAccess':
+        return `${Printer.printExpression(expression.object, quote)}.${expression.propertyName}`;
+      case 'indexedAccess':
+        return `${Printer.printExpression(expression.object, quote)}[${Printer.printExpression(expression.index, quote)}]`;
+      case 'binary': {
+        const precedence = Printer.arithmeticPrecedence[expression.operator];
+        // like logical operators, arithmetic ones group to the left
+        const left = Printer.printArithmeticOperand(
+          expression.left,
+          precedence,
+          quote,
+        );
+        const right = Printer.printArithmeticOperand(
+          expression.right,
+          precedence + 1,
+          quote,
+        );
+
+        return `${left} ${expression.operator} ${right}`;
+      }
+      case 'stringLiteral':
+        return Printer.quote(expression.value, quote);
+      case 'numberLiteral':
+      case 'booleanLiteral':
+        return String(expression.value);
+    }
+  }
+
+  private static printCondition(condition: Condition): string {
+    switch (condition.kind) {
+      case 'collectionCheck':
+        return `${Printer.printExpression(condition.target)} HAS ITEMS`;
+      case 'comparison':
+        return `${Printer.printExpression(condition.left)} ${condition.operator} ${Printer.printExpression(condition.right)}`;
+      case 'not': {
+        const operand = Printer.printCondition(condition.operand);
+
+        return condition.operand.kind === 'logical'
+          ? `NOT (${operand})`
+          : `NOT ${operand}`;
+      }
+      case 'logical': {
+        const precedence = Printer.logicalPrecedence[condition.operator];
+        // operators group to the left, so only a right operand of the same
+        // precedence was written in parentheses
+        const left = Printer.printOperand(condition.left, precedence);
+        const right = Printer.printOperand(condition.right, precedence + 1);
+
+        return `${left} ${condition.operator} ${right}`;
+      }
+    }
+  }
+
+  /**
+   * Prints an operand of a logical condition, in parentheses when its own
+   * operator binds looser than `minPrecedence`.
+   */
+  private static printOperand(operand: Condition, minPrecedence: number) {
+    const printed = Printer.printCondition(operand);
+
+    if (
+      operand.kind === 'logical' &&
+      Printer.logicalPrecedence[operand.operator] < minPrecedence
+    ) {
+      return `(${printed})`;
+    }
+
+    return printed;
+  }
+
+  private static printArithmeticOperand(
+    operand: Expression,
+    minPrecedence: number,
+    quote: Quote,
+  ) {
+    const printed = Printer.printExpression(operand, quote);
+
+    if (
+      operand.kind === 'binary' &&
+      Printer.arithmeticPrecedence[operand.operator] < minPrecedence
+    ) {
+      return `(${printed})`;
+    }
+
+    return printed;
+  }
+
+  private static indent(text: string, depth: number) {
+    return `${INDENT.repeat(depth)}${text}`;
+  }
+
+  private static quote(value: string, quote: Quote = '"') {
+    const delimiter = Printer.getDelimiter(value, quote);
+
+    return `${delimiter}${Printer.escape(value, delimiter)}${delimiter}`;
+  }
+
+  /**
+   * Keeps triple quotes only for text with line breaks to write as they
+   * are, and none right after whitespace, which would be left trailing.
+   */
+  private static getDelimiter(text: string, quote: Quote): Quote {
+    if (quote !== TRIPLE_QUOTE) return quote;
+
+    return text.includes('\n') && !/[ \t]\n/.test(text) ? TRIPLE_QUOTE : '"';
+  }
+
+  private static escape(value: string, delimiter: Quote) {
+    const backslashed = value.replaceAll('\\', '\\\\');
+
+    switch (delimiter) {
+      case TRIPLE_QUOTE:
+        // only quotes that would close the string early
+        return backslashed.replace(/"(?=""|$)/g, '\\"');
+      default:
+        return backslashed
+          .replaceAll(delimiter, `\\${delimiter}`)
+          .replaceAll('\n', '\\n');
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import readline from 'readline/promises';
+import type { Readable, Writable } from 'stream';
+import { Interpreter } from './interpreter';
+import { ScribeError } from './errors/base';
+import { DiagnosticCollector } from './diagnostics';
+import type { Transcript } from './transcript';
+import type { SourceMap } from './source-map';
+import type { GameDefinition, SaveStorage } from './types';
+
+const PROMPT = '> ';
+
+export interface ReplOptions {
+  saveStorage?: SaveStorage;
+  // records everything typed and printed during the session
+  transcript?: Transcript;
+  // locates runtime errors in games made of several files
+  sourceMap?: SourceMap;
+}
+
+export class Repl {
+  private interpreter: Interpreter;
+  private running = false;
+  private transcript?: Transcript;
+  private sourceMap?: SourceMap;
+
+  private readonly metaCommands = new Map<string, () => void>([
+    ['quit', () => this.quit()],
+    ['help', () => this.help()],
+  ]);
+
+  constructor(
+    gameDefinition: GameDefinition,
+    private readonly input: Readable,
+    private readonly output: Writable,
+    options: ReplOptions = {},
+  ) {
+    this.transcript = options.transcript;
+    this.sourceMap = options.sourceMap;
+    this.interpreter = new Interpreter(
+      gameDefinition,
+      { write: (message) => this.writeLine(message) },
+      options.saveStorage,
+    );
+  }
+
+  public async start() {
+    const rl = readline.createInterface({
+      input: this.input,
+      output: this.output,
+      terminal: false,
+    });
+
+    this.running = true;
+    this.output.write(PROMPT);
+
+    for await (const line of rl) {
+      this.handleInput(line);
+
+      if (!this.running) break;
+
+      this.output.write(PROMPT);
+    }
+
+    rl.close();
+  }
+
+  private handleInput(line: string) {
+    const input = line.trim();
+
+    if (!input) return;
+
+    this.transcript?.recordInput(input);
+
+    const metaCommand = this.metaCommands.get(input.toLowerCase());
+    if (metaCommand) {
+      metaCommand();
+      return;
+    }
+
+    try {
+      if (!this.interpreter.runCommand(input)) {
+        this.writeLine(
+          `I don't know how to "${input}". Type "help" to see what you can do.`,
+        );
+      }
+    } catch (error) {
+      if (!(error instanceof ScribeError)) throw error;
+
+      this.writeLine(`Error: ${this.describeError(error)}`);
+    }
+  }
+
+  private describeError(error: ScribeError) {
+    if (!this.sourceMap) return error.message;
+
+    const location = this.sourceMap.resolve(error.line, error.col);
+    return `${DiagnosticCollector.formatLocation(location)}: ${error.description}`;
+  }
+
+  private help() {
+    const verbs = [
+      ...this.interpreter.getAvailableCommands(),
+      ...this.metaCommands.keys(),
+    ];
+
+    this.writeLine('Available commands:');
+    for (const verb of verbs) {
+      this.writeLine(`  ${verb}`);
+    }
+  }
+
+  private quit() {
+    this.running = false;
+    this.writeLine('Goodbye!');
+  }
+
+  private writeLine(message: string) {
+    this.transcript?.recordOutput(message);
+    this.output.write(`${message}\n`);
+  }
+}
@@ -0,0 +1,48 @@
+import { Readable, Writable } from 'stream';
+import { Repl } from './repl';
+import { Transcript } from './transcript';
+import { MemorySaveStorage } from './memory-save-storage';
+import type { SourceMap } from './source-map';
+import type { GameDefinition } from './types';
+
+export interface ReplayResult {
+  passed: boolean;
+  differences: string[];
+}
+
+export class ReplayRunner {
+  constructor(
+    private readonly gameDefinition: GameDefinition,
+    private readonly sourceMap?: SourceMap,
+  ) {}
+
+  /**
+   * Plays the inputs of `expectedTranscript` in a fresh session and compares
+   * the resulting transcript against it. Saves are kept in memory so replays
+   * neither depend on nor leave behind files.
+   */
+  public async run(expectedTranscript: string): Promise<ReplayResult> {
+    const transcript = new Transcript();
+    const inputs = Transcript.getInputs(expectedTranscript);
+    const repl = new Repl(
+      this.gameDefinition,
+      Readable.from(inputs.map((input) => `${input}\n`)),
+      // prompts only matter to a player watching
+      new Writable({ write: (_chunk, _encoding, callback) => callback() }),
+      {
+        saveStorage: new MemorySaveStorage(),
+        transcript,
+        sourceMap: this.sourceMap,
+      },
+    );
+
+    await repl.start();
+
+    const differences = Transcript.diff(
+      expectedTranscript,
+      transcript.toString(),
+    );
+
+    return { passed: differences.length === 0, differences };
+  }
+}
@@ -0,0 +1,103 @@
+import { SAVE_FORMAT_VERSION } from './constants/interpreter';
+import {
+  IncompatibleSaveError,
+  InvalidSaveError,
+  UnsupportedSaveVersionError,
+} from './errors/save';
+import { sha256 } from './sha256';
+import type { GameDefinition, GameState, SaveGame } from './types';
+
+export class SaveGameSerializer {
+  private readonly gameHash: string;
+
+  constructor(gameDefinition: GameDefinition) {
+    this.gameHash = SaveGameSerializer.hash(gameDefinition);
+  }
+
+  public serialize(state: GameState): string {
+    const saveGame: SaveGame = {
+      version: SAVE_FORMAT_VERSION,
+      gameHash: this.gameHash,
+      state,
+    };
+
+    return JSON.stringify(saveGame, null, 2);
+  }
+
+  /**
+   * Parses a save produced by `serialize`, refusing saves from other format
+   * versions or made against a different game.
+   */
+  public deserialize(data: string): GameState {
+    let saveGame: unknown;
+
+    try {
+      saveGame = JSON.parse(data);
+    } catch {
+      throw new InvalidSaveError('it is not valid JSON');
+    }
+
+    if (!SaveGameSerializer.isSaveGame(saveGame)) {
+      throw new InvalidSaveError('it does not contain a game state');
+    }
+
+    if (saveGame.version !== SAVE_FORMAT_VERSION) {
+      throw new UnsupportedSaveVersionError(saveGame.version);
+    }
+
+    if (saveGame.gameHash !== this.gameHash) {
+      throw new IncompatibleSaveError();
+    }
+
+    return saveGame.state;
+  }
+
+  /**
+   * Hashes everything that shapes the game but not where it was written,
+   * so reformatting a script does not invalidate existing saves.
+   */
+  public static hash(gameDefinition: GameDefinition) {
+    const canonical = JSON.stringify(gameDefinition, (key, value: unknown) => {
+      if ((key === 'line' || key === 'col') && typeof value === 'number') {
+        return undefined;
+      }
+
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+        );
+      }
+
+      return value;
+    });
+
+    return sha256(canonical);
+  }
+
+  private static isSaveGame(value: unknown): value is SaveGame {
+    if (!SaveGameSerializer.isRecord(value)) return false;
+
+    const { version, gameHash, state } = value;
+
+    return (
+      typeof version === 'number' &&
+      typeof gameHash === 'string' &&
+      SaveGameSerializer.isRecord(state) &&
+      SaveGameSerializer.isRecord(state.variables) &&
+      SaveGameSerializer.isRecord(state.itemLocations) &&
+      SaveGameSerializer.isStringArray(state.inventory) &&
+      SaveGameSerializer.isStringArray(state.visitedRooms) &&
+      typeof state.rngSeed === 'number'
+    );
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static isStringArray(value: unknown): value is string[] {
+    return (
+      Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+    );
+  }
+}
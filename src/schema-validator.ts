@@ -0,0 +1,238 @@
+export type JsonType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/**
+ * The part of JSON Schema the validator understands. Annotations such as
+ * `description` are kept for readers and ignored when validating.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+}
+
+export interface SchemaViolation {
+  // JSON pointer to the offending value, "" for the document itself
+  path: string;
+  message: string;
+}
+
+const DEFINITION_REF_PREFIX = '#/$defs/';
+
+/**
+ * Checks values against a JSON Schema, supporting the keywords of
+ * `JsonSchema` with local `$ref`s to its `$defs`.
+ */
+export class SchemaValidator {
+  constructor(private readonly schema: JsonSchema) {}
+
+  public validate(value: unknown): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+
+    this.check(value, this.schema, '', violations);
+
+    return violations;
+  }
+
+  private check(
+    value: unknown,
+    schema: JsonSchema,
+    path: string,
+    violations: SchemaViolation[],
+  ) {
+    if (schema.$ref !== undefined) {
+      this.check(value, this.resolveRef(schema.$ref), path, violations);
+      return;
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+      if (!types.some((type) => SchemaValidator.hasType(value, type))) {
+        violations.push({
+          path,
+          message: `must be of type ${types.join(' or ')}`,
+        });
+        return;
+      }
+    }
+
+    if ('const' in schema && value !== schema.const) {
+      violations.push({
+        path,
+        message: `must be ${JSON.stringify(schema.const)}`,
+      });
+      return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      violations.push({
+        path,
+        message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+      });
+      return;
+    }
+
+    if (schema.oneOf) {
+      this.checkOneOf(value, schema.oneOf, path, violations);
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      const { items } = schema;
+
+      value.forEach((entry, index) =>
+        this.check(entry, items, `${path}/${index}`, violations),
+      );
+    }
+
+    if (SchemaValidator.isRecord(value)) {
+      this.checkProperties(value, schema, path, violations);
+    }
+  }
+
+  private checkProperties(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    path: string,
+    violations: SchemaViolation[],
+  ) {
+    const { properties = {}, required = [], additionalProperties } = schema;
+
+    for (const name of required) {
+      if (!(name in value)) {
+        violations.push({ path, message: `must have property "${name}"` });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPath = `${path}/${SchemaValidator.escapePointer(name)}`;
+      const propertySchema = properties[name];
+
+      if (propertySchema) {
+        this.check(propertyValue, propertySchema, propertyPath, violations);
+      } else if (additionalProperties === false) {
+        violations.push({
+          path: propertyPath,
+          message: 'is not an allowed property',
+        });
+      } else if (typeof additionalProperties === 'object') {
+        this.check(
+          propertyValue,
+          additionalProperties,
+          propertyPath,
+          violations,
+        );
+      }
+    }
+  }
+
+  /**
+   * Unions are told apart by their constant properties, such as `kind`, so
+   * a value that picks a branch gets that branch's precise violations.
+   */
+  private checkOneOf(
+    value: unknown,
+    branches: JsonSchema[],
+    path: string,
+    violations: SchemaViolation[],
+  ) {
+    const candidates = branches.filter((branch) =>
+      this.matchesConstants(value, this.resolve(branch)),
+    );
+
+    if (candidates.length === 1) {
+      this.check(value, candidates[0]!, path, violations);
+      return;
+    }
+
+    const matches = candidates.filter(
+      (branch) => this.validateAgainst(value, branch).length === 0,
+    );
+
+    if (matches.length !== 1) {
+      violations.push({
+        path,
+        message:
+          matches.length === 0
+            ? 'does not match any of the allowed shapes'
+            : 'matches more than one of the allowed shapes',
+      });
+    }
+  }
+
+  private matchesConstants(value: unknown, schema: JsonSchema) {
+    if (!SchemaValidator.isRecord(value)) return true;
+
+    return Object.entries(schema.properties ?? {}).every(
+      ([name, propertySchema]) =>
+        !('const' in propertySchema) || value[name] === propertySchema.const,
+    );
+  }
+
+  private validateAgainst(value: unknown, schema: JsonSchema) {
+    const violations: SchemaViolation[] = [];
+
+    this.check(value, schema, '', violations);
+
+    return violations;
+  }
+
+  private resolve(schema: JsonSchema): JsonSchema {
+    return schema.$ref === undefined
+      ? schema
+      : this.resolve(this.resolveRef(schema.$ref));
+  }
+
+  private resolveRef(ref: string): JsonSchema {
+    const definition = ref.startsWith(DEFINITION_REF_PREFIX)
+      ? this.schema.$defs?.[ref.slice(DEFINITION_REF_PREFIX.length)]
+      : undefined;
+
+    if (!definition) {
+      throw new Error(`Unsupported schema reference ${ref}`);
+    }
+
+    return definition;
+  }
+
+  private static hasType(value: unknown, type: JsonType) {
+    switch (type) {
+      case 'object':
+        return SchemaValidator.isRecord(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  // escapes a property name for use as a segment of a JSON pointer
+  public static escapePointer(name: string) {
+    return name.replaceAll('~', '~0').replaceAll('/', '~1');
+  }
+}
@@ -0,0 +1,129 @@
+import path from 'path';
+import { Lexer } from './lexer';
+import { TokenType, type SourceHost, type Token } from './types';
+import { UnexpectedTokenError } from './errors/parser';
+import { IncludeCycleError, IncludeNotFoundError } from './errors/loader';
+import type { SourceMap } from './source-map';
+import { reportOrThrow, type DiagnosticCollector } from './diagnostics';
+
+interface OpenFile {
+  file: string;
+  resolvedPath: string;
+}
+
+/**
+ * Lexes a program and every file it includes into a single token stream, so
+ * the later phases, and the symbol table in particular, see one program.
+ * `INCLUDE "path"` lines are replaced by the tokens of the file they name,
+ * resolved relative to the including file. A file is only included once.
+ */
+export class SourceLoader {
+  // the chain of files currently being included, to detect cycles
+  private openFiles: OpenFile[] = [];
+  private loadedPaths = new Set<string>();
+
+  constructor(
+    private readonly host: SourceHost,
+    private readonly sourceMap: SourceMap,
+    private readonly diagnostics?: DiagnosticCollector,
+  ) {}
+
+  public load(source: string, file: string): Token[] {
+    const resolvedPath = path.resolve(file);
+    const firstLine = this.sourceMap.add(file, source);
+
+    this.openFiles.push({ file, resolvedPath });
+    this.loadedPaths.add(resolvedPath);
+
+    const tokens = new Lexer(source, firstLine, 1, this.diagnostics).tokenize();
+    const expandedTokens = this.expandIncludes(tokens, file);
+
+    this.openFiles.pop();
+
+    return expandedTokens;
+  }
+
+  private expandIncludes(tokens: Token[], file: string): Token[] {
+    const expandedTokens: Token[] = [];
+
+    for (let position = 0; position < tokens.length; position++) {
+      const token = tokens[position]!;
+      const startsLine =
+        position === 0 || tokens[position - 1]?.type === TokenType.EOL;
+
+      if (token.type !== TokenType.INCLUDE || !startsLine) {
+        expandedTokens.push(token);
+        continue;
+      }
+
+      try {
+        expandedTokens.push(...this.include(tokens, position, file));
+      } catch (error) {
+        reportOrThrow(this.diagnostics, error);
+      }
+
+      // skip the rest of the INCLUDE line, keeping its EOL
+      while (tokens[position + 1] && tokens[position]?.type !== TokenType.EOL) {
+        position++;
+      }
+      expandedTokens.push(tokens[position]!);
+    }
+
+    return expandedTokens;
+  }
+
+  private include(tokens: Token[], position: number, file: string): Token[] {
+    const includeToken = tokens[position]!;
+    const pathToken = tokens[position + 1];
+
+    if (
+      pathToken?.type !== TokenType.STRING ||
+      tokens[position + 2]?.type !== TokenType.EOL
+    ) {
+      throw new UnexpectedTokenError(
+        'Expected a quoted file path after INCLUDE',
+        includeToken.line,
+        includeToken.col,
+        includeToken.value.length,
+      );
+    }
+
+    // recorded relative to the including file, as the entry file is given
+    const includePath = path.isAbsolute(pathToken.value)
+      ? pathToken.value
+      : path.join(path.dirname(file), pathToken.value);
+    const resolvedPath = path.resolve(includePath);
+    // include the quotes
+    const pathLength = pathToken.raw?.length ?? pathToken.value.length + 2;
+
+    if (this.openFiles.some((open) => open.resolvedPath === resolvedPath)) {
+      const cycleStart = this.openFiles.findIndex(
+        (open) => open.resolvedPath === resolvedPath,
+      );
+      const cycle = this.openFiles.slice(cycleStart).map((open) => open.file);
+
+      throw new IncludeCycleError(
+        [...cycle, includePath],
+        pathToken.line,
+        pathToken.col,
+        pathLength,
+      );
+    }
+
+    if (this.loadedPaths.has(resolvedPath)) return [];
+
+    const source = this.host.readFile(includePath);
+
+    if (source === undefined) {
+      throw new IncludeNotFoundError(
+        pathToken.value,
+        pathToken.line,
+        pathToken.col,
+        pathLength,
+      );
+    }
+
+    // the EOL of the INCLUDE line follows, so drop the closing EOL and EOF
+    return this.load(source, includePath).slice(0, -2);
+  }
+}
@@ -0,0 +1,64 @@
+import type { SourceLocation } from './types';
+
+interface SourceFile {
+  file: string;
+  source: string;
+  firstLine: number;
+}
+
+/**
+ * Every file of a program is lexed into its own range of line numbers, so
+ * positions stay plain numbers throughout compilation and at runtime. This
+ * maps them back to the file and line they were written at.
+ */
+export class SourceMap {
+  private files: SourceFile[] = [];
+  private nextLine = 1;
+
+  /**
+   * Registers `source` and returns the line number its first line gets.
+   */
+  public add(file: string, source: string) {
+    const firstLine = this.nextLine;
+
+    this.files.push({ file, source, firstLine });
+    this.nextLine += source.split('\n').length;
+
+    return firstLine;
+  }
+
+  public resolve(line: number, col: number): SourceLocation {
+    const sourceFile = this.findFile(line);
+
+    if (!sourceFile) return { line, col };
+
+    return {
+      file: sourceFile.file,
+      line: line - sourceFile.firstLine + 1,
+      col,
+    };
+  }
+
+  public getFiles() {
+    return this.files.map(({ file }) => file);
+  }
+
+  public getSource(file: string) {
+    return this.files.find((sourceFile) => sourceFile.file === file)?.source;
+  }
+
+  public getFirstLine(file: string) {
+    return this.files.find((sourceFile) => sourceFile.file === file)?.firstLine;
+  }
+
+  private findFile(line: number) {
+    let match: SourceFile | undefined;
+
+    for (const sourceFile of this.files) {
+      if (sourceFile.firstLine > line) break;
+      match = sourceFile;
+    }
+
+    return match;
+  }
+}
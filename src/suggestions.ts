@@ -0,0 +1,55 @@
+/**
+ * Returns the candidate closest to `name` by edit distance, if it is close
+ * enough to plausibly be what was meant.
+ */
+export function findSuggestion(
+  name: string,
+  candidates: Iterable<string>,
+): string | undefined {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  let bestCandidate: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = getEditDistance(name, candidate);
+
+    if (distance <= maxDistance && distance < bestDistance) {
+      bestCandidate = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestCandidate;
+}
+
+/**
+ * Optimal string alignment distance: like Levenshtein, but swapping two
+ * adjacent characters counts as a single edit, as in "nmae" for "name".
+ */
+function getEditDistance(a: string, b: string) {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0,
+    ),
+  );
+  const at = (i: number, j: number) => distances[i]?.[j] ?? Infinity;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        at(i - 1, j) + 1,
+        at(i, j - 1) + 1,
+        at(i - 1, j - 1) + substitutionCost,
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, at(i - 2, j - 2) + 1);
+      }
+
+      distances[i]![j] = distance;
+    }
+  }
+
+  return at(a.length, b.length);
+}
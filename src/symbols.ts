@@ -17,13 +17,17 @@ import {
   UnterminatedBlockError,
   VariableAlreadyDefinedError,
 } from './errors/parser';
+import { reportOrThrow, type DiagnosticCollector } from './diagnostics';
 
 export class SymbolParser {
   private symbolsMap = new Map<string, SymbolDefinition>();
   private currentToken: Token;
   private currentPosition = 0;
 
-  constructor(private readonly tokens: Token[]) {
+  constructor(
+    private readonly tokens: Token[],
+    private readonly diagnostics?: DiagnosticCollector,
+  ) {
     this.currentToken = tokens[this.currentPosition]!;
   }
 
@@ -31,33 +35,55 @@ export class SymbolParser {
     if (!this.tokens.length) return this.symbolsMap;
 
     while (!this.eof()) {
-      switch (this.currentToken.type) {
-        case TokenType.VAR: {
-          this.parseVariableDefinition();
-          break;
-        }
-        case TokenType.ITEM: {
-          this.parseItemDefinition();
-          break;
-        }
-
-        case TokenType.ROOM: {
-          this.parseRoomDefinition();
-          break;
-        }
-
-        case TokenType.SCRIPT: {
-          this.parseScriptDefinition();
-          break;
-        }
-        default: {
-          this.consume(); // ignore other things
-        }
+      try {
+        this.parseTopLevelDefinition();
+      } catch (error) {
+        reportOrThrow(this.diagnostics, error);
+        this.synchronize();
       }
     }
     return this.symbolsMap;
   }
 
+  private parseTopLevelDefinition() {
+    switch (this.currentToken.type) {
+      case TokenType.VAR: {
+        this.parseVariableDefinition();
+        break;
+      }
+      case TokenType.ITEM: {
+        this.parseItemDefinition();
+        break;
+      }
+
+      case TokenType.ROOM: {
+        this.parseRoomDefinition();
+        break;
+      }
+
+      case TokenType.SCRIPT: {
+        this.parseScriptDefinition();
+        break;
+      }
+      default: {
+        this.consume(); // ignore other things
+      }
+    }
+  }
+
+  /**
+   * Skips the rest of the line that failed to parse.
+   */
+  private synchronize() {
+    while (!this.eol() && !this.eof()) {
+      this.consume();
+    }
+
+    if (this.eol()) {
+      this.consume();
+    }
+  }
+
   private parseVariableDefinition() {
     this.expect(TokenType.VAR, `Expected VAR found ${this.currentToken.value}`);
 
@@ -221,7 +247,7 @@ export class SymbolParser {
 
     assert(
       SymbolParser.match(this.currentToken.type, TokenType.EOL),
-      `Encountered an invalid token, Type: ${this.currentToken.type}, Value: ${this.currentToken.value}`,
+      `Encountered an invalid token, Type: ${TokenType[this.currentToken.type]}, Value: ${this.currentToken.value}`,
     );
 
     this.consume(); // consume new line itself
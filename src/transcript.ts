@@ -0,0 +1,62 @@
+// marks the lines the player typed, matching the prompt players see
+const INPUT_PREFIX = '> ';
+
+export class Transcript {
+  private lines: string[] = [];
+
+  public recordInput(input: string) {
+    this.lines.push(`${INPUT_PREFIX}${input}`);
+  }
+
+  public recordOutput(message: string) {
+    this.lines.push(...message.split('\n'));
+  }
+
+  public toString() {
+    return this.lines.map((line) => `${line}\n`).join('');
+  }
+
+  /**
+   * Extracts what the player typed from a recorded transcript.
+   */
+  public static getInputs(transcript: string): string[] {
+    return Transcript.splitLines(transcript)
+      .filter((line) => line.startsWith(INPUT_PREFIX))
+      .map((line) => line.slice(INPUT_PREFIX.length));
+  }
+
+  /**
+   * Compares transcripts line by line, describing every line that differs.
+   */
+  public static diff(expected: string, actual: string): string[] {
+    const expectedLines = Transcript.splitLines(expected);
+    const actualLines = Transcript.splitLines(actual);
+    const lineCount = Math.max(expectedLines.length, actualLines.length);
+    const differences: string[] = [];
+
+    for (let index = 0; index < lineCount; index++) {
+      const expectedLine = expectedLines[index];
+      const actualLine = actualLines[index];
+
+      if (expectedLine === actualLine) continue;
+
+      differences.push(
+        [
+          `line ${index + 1}:`,
+          `  expected: ${expectedLine ?? '<end of transcript>'}`,
+          `  actual:   ${actualLine ?? '<end of transcript>'}`,
+        ].join('\n'),
+      );
+    }
+
+    return differences;
+  }
+
+  private static splitLines(transcript: string) {
+    const lines = transcript.split(/\r?\n/);
+
+    if (lines.at(-1) === '') lines.pop();
+
+    return lines;
+  }
+}
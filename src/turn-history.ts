@@ -0,0 +1,135 @@
+import { MAX_UNDO_TURNS } from './constants/interpreter';
+import type { GameState, StateDiff, ValueChange } from './types';
+
+type DiffSide = keyof ValueChange<unknown>;
+
+export class TurnHistory {
+  private undoStack: StateDiff[] = [];
+  private redoStack: StateDiff[] = [];
+
+  constructor(private readonly maxTurns = MAX_UNDO_TURNS) {}
+
+  /**
+   * Records the turn that took the game from `before` to `after`. Turns that
+   * changed nothing are not recorded, so undo always reverts something.
+   */
+  public record(before: GameState, after: GameState) {
+    const diff = TurnHistory.diff(before, after);
+
+    if (!diff) return;
+
+    this.undoStack.push(diff);
+    this.redoStack = [];
+
+    if (this.undoStack.length > this.maxTurns) {
+      this.undoStack.shift();
+    }
+  }
+
+  public undo(state: GameState): boolean {
+    const diff = this.undoStack.pop();
+
+    if (!diff) return false;
+
+    TurnHistory.apply(state, diff, 'before');
+    this.redoStack.push(diff);
+    return true;
+  }
+
+  public redo(state: GameState): boolean {
+    const diff = this.redoStack.pop();
+
+    if (!diff) return false;
+
+    TurnHistory.apply(state, diff, 'after');
+    this.undoStack.push(diff);
+    return true;
+  }
+
+  public clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private static diff(before: GameState, after: GameState): StateDiff | null {
+    const diff: StateDiff = {
+      variables: TurnHistory.diffRecord(before.variables, after.variables),
+      itemLocations: TurnHistory.diffRecord(
+        before.itemLocations,
+        after.itemLocations,
+      ),
+    };
+    let changed =
+      Object.keys(diff.variables).length > 0 ||
+      Object.keys(diff.itemLocations).length > 0;
+
+    if (!TurnHistory.sameList(before.inventory, after.inventory)) {
+      diff.inventory = {
+        before: [...before.inventory],
+        after: [...after.inventory],
+      };
+      changed = true;
+    }
+
+    if (!TurnHistory.sameList(before.visitedRooms, after.visitedRooms)) {
+      diff.visitedRooms = {
+        before: [...before.visitedRooms],
+        after: [...after.visitedRooms],
+      };
+      changed = true;
+    }
+
+    if (before.rngSeed !== after.rngSeed) {
+      diff.rngSeed = { before: before.rngSeed, after: after.rngSeed };
+      changed = true;
+    }
+
+    return changed ? diff : null;
+  }
+
+  // state records never lose keys, so only changed values need storing
+  private static diffRecord<T>(
+    before: Record<string, T>,
+    after: Record<string, T>,
+  ): Record<string, ValueChange<T>> {
+    const changes: Record<string, ValueChange<T>> = {};
+
+    for (const [key, value] of Object.entries(after)) {
+      const previous = before[key];
+
+      if (previous !== undefined && previous !== value) {
+        changes[key] = { before: previous, after: value };
+      }
+    }
+
+    return changes;
+  }
+
+  private static apply(state: GameState, diff: StateDiff, side: DiffSide) {
+    for (const [name, change] of Object.entries(diff.variables)) {
+      state.variables[name] = change[side];
+    }
+
+    for (const [itemId, change] of Object.entries(diff.itemLocations)) {
+      state.itemLocations[itemId] = change[side];
+    }
+
+    if (diff.inventory) {
+      state.inventory = [...diff.inventory[side]];
+    }
+
+    if (diff.visitedRooms) {
+      state.visitedRooms = [...diff.visitedRooms[side]];
+    }
+
+    if (diff.rngSeed) {
+      state.rngSeed = diff.rngSeed[side];
+    }
+  }
+
+  private static sameList(a: readonly string[], b: readonly string[]) {
+    return (
+      a.length === b.length && a.every((entry, index) => entry === b[index])
+    );
+  }
+}
@@ -8,12 +8,15 @@ export enum TokenType {
   // Keywords
   VAR, ITEM, DESC, LOCATION, TAKEABLE, ID, ROOM, COMMAND, EFFECT, EXECUTE,
   SCRIPT, MESSAGE, IF, HAS, ITEMS, THEN, FOR, IN, DO, ENDIF, ENDFOR, ENDSCRIPT,
+  EXIT, SET, AND, OR, NOT, ELSE, ELSEIF, TAKE, DROP, MOVE, TO, DESTROY, ALIAS,
+  INCLUDE, ON, ENTER, LEAVE, TURN, EXAMINE,
 
   // Literals/variable name
   STRING, BOOL, NUMBER, IDENT,
 
   // one or more characters
-  ASSIGNMENT, DOT, LBRACKET, RBRACKET, EQ, EOL,
+  ASSIGNMENT, DOT, LBRACKET, RBRACKET, LPAREN, RPAREN, EQ, NEQ, LT, LTE, GT,
+  GTE, PLUS, MINUS, STAR, SLASH, EOL,
 
   EOF
 }
@@ -23,6 +26,16 @@ export interface Token {
   value: string;
   line: number;
   col: number;
+  // the source text of strings, with their quotes and escape sequences
+  raw?: string;
+}
+
+// kept aside by the lexer as trivia, for tools that print sources back
+export interface Comment {
+  // from the "#" to the end of the line
+  text: string;
+  line: number;
+  col: number;
 }
 
 export interface SymbolDefinition {
@@ -38,6 +51,7 @@ export type ItemId = EntityId;
 export type VariableName = string;
 export type ScriptId = string;
 export type CommandVerb = string;
+export type Direction = string;
 
 export interface BaseExpression {
   line: number;
@@ -61,10 +75,41 @@ export interface PropertyAccessExpression extends BaseExpression {
   propertyName: string;
 }
 
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+export interface BinaryExpression extends BaseExpression {
+  kind: 'binary';
+  operator: ArithmeticOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface NumberLiteralExpression extends BaseExpression {
+  kind: 'numberLiteral';
+  value: number;
+}
+
+export interface StringLiteralExpression extends BaseExpression {
+  kind: 'stringLiteral';
+  value: string;
+}
+
+export interface BooleanLiteralExpression extends BaseExpression {
+  kind: 'booleanLiteral';
+  value: boolean;
+}
+
+export type LiteralExpression =
+  | NumberLiteralExpression
+  | StringLiteralExpression
+  | BooleanLiteralExpression;
+
 export type Expression =
   | VariableAccessExpression
   | IndexedAccessExpression
-  | PropertyAccessExpression;
+  | PropertyAccessExpression
+  | BinaryExpression
+  | LiteralExpression;
 
 export interface BaseCondition {
   line: number;
@@ -77,40 +122,130 @@ export interface CollectionCheckCondition extends BaseCondition {
   checkType: 'HAS_ITEMS';
 }
 
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
 export interface ComparisonCondition extends BaseCondition {
   kind: 'comparison';
   left: Expression;
-  operator: '==';
+  operator: ComparisonOperator;
   right: Expression;
 }
 
-export type Condition = CollectionCheckCondition | ComparisonCondition;
+export type LogicalOperator = 'AND' | 'OR';
+
+export interface LogicalCondition extends BaseCondition {
+  kind: 'logical';
+  operator: LogicalOperator;
+  left: Condition;
+  right: Condition;
+}
+
+export interface NotCondition extends BaseCondition {
+  kind: 'not';
+  operand: Condition;
+}
+
+export type Condition =
+  | CollectionCheckCondition
+  | ComparisonCondition
+  | LogicalCondition
+  | NotCondition;
 
 export interface BaseScriptAction {
   line: number;
   col: number;
 }
 
+export interface TemplateLiteralSegment {
+  kind: 'literal';
+  value: string;
+}
+
+export interface TemplateExpressionSegment {
+  kind: 'expression';
+  expression: Expression;
+}
+
+export type TemplateSegment =
+  | TemplateLiteralSegment
+  | TemplateExpressionSegment;
+export type MessageTemplate = TemplateSegment[];
+
 export interface MessageAction extends BaseScriptAction {
   kind: 'message';
-  messageTemplate?: string;
+  messageTemplate?: MessageTemplate;
   valueExpression?: Expression;
 }
 
+export interface ElseIfBranch {
+  condition: Condition;
+  body: ScriptBlock;
+  line: number;
+  col: number;
+}
+
 export interface IfAction extends BaseScriptAction {
   kind: 'if';
   condition: Condition;
   thenBranch: ScriptBlock;
+  elseIfBranches: ElseIfBranch[];
+  elseBranch?: ScriptBlock;
 }
 
 export interface ForAction extends BaseScriptAction {
   kind: 'for';
   variableName: string;
+  // the loop variable is always on the line of its FOR
+  variableCol: number;
   collection: Expression;
   body: ScriptBlock;
 }
 
-export type ScriptAction = MessageAction | IfAction | ForAction;
+export interface SetAction extends BaseScriptAction {
+  kind: 'set';
+  target: VariableAccessExpression;
+  value: Expression;
+}
+
+export interface TakeAction extends BaseScriptAction {
+  kind: 'take';
+  item: Expression;
+}
+
+export interface DropAction extends BaseScriptAction {
+  kind: 'drop';
+  item: Expression;
+}
+
+export interface MoveAction extends BaseScriptAction {
+  kind: 'move';
+  item: Expression;
+  destination: Expression;
+}
+
+export interface DestroyAction extends BaseScriptAction {
+  kind: 'destroy';
+  item: Expression;
+}
+
+export interface ExamineAction extends BaseScriptAction {
+  kind: 'examine';
+  item: Expression;
+}
+
+export type ItemAction =
+  | TakeAction
+  | DropAction
+  | MoveAction
+  | DestroyAction
+  | ExamineAction;
+
+export type ScriptAction =
+  | MessageAction
+  | IfAction
+  | ForAction
+  | SetAction
+  | ItemAction;
 export type ScriptBlock = ScriptAction[];
 
 export interface CallScriptEffect {
@@ -120,6 +255,9 @@ export interface CallScriptEffect {
   col: number;
 }
 
+export type RoomEvent = 'enter' | 'leave';
+export type ItemEvent = 'take' | 'drop' | 'examine';
+
 export type VariableType = 'NUMBER' | 'STRING' | 'BOOL' | 'ID';
 export type VariableValue = string | boolean | number;
 
@@ -144,16 +282,46 @@ export interface ItemDefinition extends BaseDefinition {
   desc: string;
   initialLocation: RoomId;
   interactions: ItemInteractions[];
+  events: Partial<Record<ItemEvent, CallScriptEffect>>;
+}
+
+export interface ExitDefinition extends BaseDefinition {
+  direction: Direction;
+  roomId: RoomId;
 }
 
 export interface RoomDefinition extends BaseDefinition {
   id: RoomId;
   name: string;
   desc: string;
+  exits: Record<Direction, ExitDefinition>;
+  events: Partial<Record<RoomEvent, CallScriptEffect>>;
+}
+
+export interface CommandWordSegment {
+  kind: 'word';
+  value: string;
+}
+
+export interface CommandParameterSegment {
+  kind: 'parameter';
+  name: string;
+}
+
+export type CommandPatternSegment =
+  | CommandWordSegment
+  | CommandParameterSegment;
+export type CommandPattern = CommandPatternSegment[];
+
+export interface CommandAlias extends BaseDefinition {
+  verb: CommandVerb;
+  pattern: CommandPattern;
 }
 
 export interface CommandDefinition extends BaseDefinition {
   verb: CommandVerb;
+  pattern: CommandPattern;
+  aliases: CommandAlias[];
   effect: CallScriptEffect;
 }
 
@@ -171,5 +339,105 @@ export interface GameDefinition {
   rooms: Record<RoomId, RoomDefinition>;
   commands: CommandDefinition[];
   scripts: Record<ScriptId, ScriptDefinition>;
+  // ON TURN hooks, in definition order
+  turnHooks: CallScriptEffect[];
   playerStartLocation: RoomId;
 }
+
+// item interactions by name, so bundles do not depend on enum values
+export type BundledItemInteraction = 'takeable';
+
+export interface BundledItemDefinition
+  extends Omit<ItemDefinition, 'interactions'> {
+  interactions: BundledItemInteraction[];
+}
+
+export interface GameBundle {
+  format: string;
+  version: number;
+  game: Omit<GameDefinition, 'items'> & {
+    items: Record<ItemId, BundledItemDefinition>;
+  };
+}
+
+export type RuntimeValue = VariableValue | RuntimeValue[];
+
+export interface GameState {
+  variables: Record<VariableName, VariableValue>;
+  itemLocations: Record<ItemId, RoomId>;
+  // ordered by the time items were taken
+  inventory: ItemId[];
+  // ordered by the time rooms were first entered
+  visitedRooms: RoomId[];
+  // seeds any randomness, so a restored game plays out the same way
+  rngSeed: number;
+}
+
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+// only what a turn changed, so the history stays small
+export interface StateDiff {
+  variables: Record<VariableName, ValueChange<VariableValue>>;
+  itemLocations: Record<ItemId, ValueChange<RoomId>>;
+  inventory?: ValueChange<ItemId[]>;
+  visitedRooms?: ValueChange<RoomId[]>;
+  rngSeed?: ValueChange<number>;
+}
+
+export interface SaveGame {
+  version: number;
+  // ties the save to the game it was made with
+  gameHash: string;
+  state: GameState;
+}
+
+export interface CommandMatch {
+  command: CommandDefinition;
+  // parameter name to the text the player typed in its place
+  args: Map<string, string>;
+}
+
+export interface OutputSink {
+  write(message: string): void;
+}
+
+export interface SaveStorage {
+  read(slot: string): string | undefined;
+  write(slot: string, data: string): void;
+}
+
+export interface SourceHost {
+  // undefined when there is no such file
+  readFile(path: string): string | undefined;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface SourcePosition {
+  line: number;
+  col: number;
+}
+
+export interface SourceLocation extends SourcePosition {
+  file?: string;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  range: SourceRange;
+  file?: string;
+  // a known name the author probably meant, e.g. for a misspelled identifier
+  suggestion?: string;
+  // where a duplicated definition was first made
+  previousDefinition?: SourceLocation;
+}
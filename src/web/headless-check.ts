@@ -0,0 +1,72 @@
+import fs from 'fs';
+import { Window } from 'happy-dom';
+import {
+  COMMAND_FORM_ELEMENT_ID,
+  COMMAND_INPUT_ELEMENT_ID,
+  TRANSCRIPT_ELEMENT_ID,
+} from '../constants/web';
+
+/**
+ * Plays an exported page without a browser, in the happy-dom DOM shim:
+ * every command is typed into the page and the transcript printed. Exits
+ * with an error when a command gets no answer, as happens when the runtime
+ * of the page fails.
+ *
+ * Usage: bun src/web/headless-check.ts <page.html> [command...]
+ */
+const [pagePath, ...commands] = process.argv.slice(2);
+
+if (!pagePath) {
+  console.error(
+    'Usage: bun src/web/headless-check.ts <page.html> [command...]',
+  );
+  process.exit(1);
+}
+
+const window = new Window({
+  // local storage needs an origin to keep saves under
+  url: 'https://localhost/',
+  settings: {
+    enableJavaScriptEvaluation: true,
+    // the page runs in this process, which is fine for pages we exported
+    suppressInsecureJavaScriptEnvironmentWarning: true,
+  },
+});
+const { document } = window;
+
+document.write(fs.readFileSync(pagePath, 'utf8'));
+await window.happyDOM.waitUntilComplete();
+
+const transcript = document.getElementById(TRANSCRIPT_ELEMENT_ID);
+const form = document.getElementById(COMMAND_FORM_ELEMENT_ID);
+const input = document.getElementById(COMMAND_INPUT_ELEMENT_ID);
+
+if (!transcript || !form || !(input instanceof window.HTMLInputElement)) {
+  throw new Error(`${pagePath} is not a page exported by scribe export`);
+}
+
+const getLineCount = () => transcript.querySelectorAll('p').length;
+const failures: string[] = [];
+
+for (const command of commands) {
+  // the input echo and at least one line in answer
+  const expectedLineCount = getLineCount() + 2;
+
+  input.value = command;
+  form.dispatchEvent(new window.Event('submit', { cancelable: true }));
+
+  if (getLineCount() < expectedLineCount) {
+    failures.push(`"${command}" got no answer`);
+  }
+}
+
+for (const line of transcript.querySelectorAll('p')) {
+  console.log(line.textContent);
+}
+
+await window.happyDOM.close();
+
+if (failures.length) {
+  console.error(`${pagePath}: ${failures.join(', ')}`);
+  process.exit(1);
+}
@@ -0,0 +1,25 @@
+import { LOCAL_SAVE_KEY_PREFIX } from '../constants/web';
+import type { SaveStorage } from '../types';
+
+/**
+ * Keeps saves in the browser's local storage, under keys unique to the game
+ * so several exported games can be played from the same origin.
+ */
+export class LocalSaveStorage implements SaveStorage {
+  constructor(
+    private readonly storage: Storage,
+    private readonly gameId: string,
+  ) {}
+
+  public read(slot: string): string | undefined {
+    return this.storage.getItem(this.getKey(slot)) ?? undefined;
+  }
+
+  public write(slot: string, data: string) {
+    this.storage.setItem(this.getKey(slot), data);
+  }
+
+  private getKey(slot: string) {
+    return `${LOCAL_SAVE_KEY_PREFIX}:${this.gameId}:${slot}`;
+  }
+}
@@ -0,0 +1,32 @@
+import { BundleSerializer } from '../bundle';
+import { SaveGameSerializer } from '../save-game';
+import { MemorySaveStorage } from '../memory-save-storage';
+import { GAME_DATA_ELEMENT_ID } from '../constants/web';
+import { LocalSaveStorage } from './local-save-storage';
+import { WebPlayer } from './player';
+
+// runs in the exported page, where the game is embedded as a bundle
+const data = document.getElementById(GAME_DATA_ELEMENT_ID)?.textContent;
+
+if (!data) {
+  throw new Error(`The page has no #${GAME_DATA_ELEMENT_ID} game data`);
+}
+
+const gameDefinition = new BundleSerializer().deserialize(data);
+
+new WebPlayer(document, gameDefinition, createSaveStorage()).start();
+
+/**
+ * Saves go to local storage, or only last as long as the page where the
+ * browser denies it, as some do for pages opened from disk.
+ */
+function createSaveStorage() {
+  try {
+    return new LocalSaveStorage(
+      window.localStorage,
+      SaveGameSerializer.hash(gameDefinition),
+    );
+  } catch {
+    return new MemorySaveStorage();
+  }
+}
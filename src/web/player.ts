@@ -0,0 +1,111 @@
+import { Interpreter } from '../interpreter';
+import { ScribeError } from '../errors/base';
+import {
+  COMMAND_FORM_ELEMENT_ID,
+  COMMAND_INPUT_ELEMENT_ID,
+  TRANSCRIPT_ELEMENT_ID,
+} from '../constants/web';
+import type { GameDefinition, SaveStorage } from '../types';
+
+const PROMPT = '> ';
+
+/**
+ * Plays a game in the page an exported game is made of, the browser
+ * counterpart of the REPL: commands typed in the input box are run and
+ * everything is appended to a scrolling transcript.
+ */
+export class WebPlayer {
+  private interpreter: Interpreter;
+  private transcript: HTMLElement;
+  private form: HTMLFormElement;
+  private input: HTMLInputElement;
+
+  private readonly metaCommands = new Map<string, () => void>([
+    ['help', () => this.help()],
+  ]);
+
+  constructor(
+    private readonly document: Document,
+    gameDefinition: GameDefinition,
+    saveStorage?: SaveStorage,
+  ) {
+    this.transcript = this.getElement(TRANSCRIPT_ELEMENT_ID);
+    this.form = this.getElement(COMMAND_FORM_ELEMENT_ID);
+    this.input = this.getElement(COMMAND_INPUT_ELEMENT_ID);
+    this.interpreter = new Interpreter(
+      gameDefinition,
+      { write: (message) => this.writeLine(message) },
+      saveStorage,
+    );
+  }
+
+  public start() {
+    this.form.addEventListener('submit', (event) => {
+      event.preventDefault();
+
+      const line = this.input.value;
+      this.input.value = '';
+      this.handleInput(line);
+    });
+
+    this.input.focus();
+  }
+
+  private handleInput(line: string) {
+    const input = line.trim();
+
+    if (!input) return;
+
+    this.writeLine(`${PROMPT}${input}`, 'input');
+
+    const metaCommand = this.metaCommands.get(input.toLowerCase());
+    if (metaCommand) {
+      metaCommand();
+      return;
+    }
+
+    try {
+      if (!this.interpreter.runCommand(input)) {
+        this.writeLine(
+          `I don't know how to "${input}". Type "help" to see what you can do.`,
+        );
+      }
+    } catch (error) {
+      if (!(error instanceof ScribeError)) throw error;
+
+      this.writeLine(`Error: ${error.message}`);
+    }
+  }
+
+  private help() {
+    const verbs = [
+      ...this.interpreter.getAvailableCommands(),
+      ...this.metaCommands.keys(),
+    ];
+
+    this.writeLine('Available commands:');
+    for (const verb of verbs) {
+      this.writeLine(`  ${verb}`);
+    }
+  }
+
+  private writeLine(message: string, className = 'output') {
+    const line = this.document.createElement('p');
+
+    line.className = className;
+    // never markup, games print whatever their authors wrote
+    line.textContent = message;
+    this.transcript.append(line);
+    this.transcript.scrollTop = this.transcript.scrollHeight;
+  }
+
+  private getElement<T extends HTMLElement>(id: string): T {
+    const element = this.document.getElementById(id);
+
+    if (!element) {
+      throw new Error(`The page has no #${id} element`);
+    }
+
+    return element as T;
+  }
+}